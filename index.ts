@@ -1,49 +1,125 @@
-import { JetstreamSubscription } from "@atcute/jetstream";
-import { createConnection } from "node:net";
-
-const STREAMER_DID =
-  process.env.STREAMER_DID ?? "did:plc:b6dcapsekrslqcsjavnafgag";
-const JETSTREAM_URL =
-  process.env.JETSTREAM_URL ?? "wss://jetstream2.us-east.bsky.network";
-const KEYPRESS_DURATION_MS = Number.parseInt(
-  process.env.KEYPRESS_DURATION_MS ?? "80",
-  10,
-);
-const LONG_KEYPRESS_DURATION_MS = Number.parseInt(
-  process.env.LONG_KEYPRESS_DURATION_MS ?? `${KEYPRESS_DURATION_MS * 3}`,
-  10,
-);
-const MGBA_HOST = process.env.MGBA_HOST ?? "127.0.0.1";
-const MGBA_PORT = Number.parseInt(process.env.MGBA_PORT ?? "8765", 10);
-const MGBA_SOCKET_TIMEOUT_MS = Number.parseInt(
-  process.env.MGBA_SOCKET_TIMEOUT_MS ?? "1500",
-  10,
-);
-const DRY_RUN = process.env.DRY_RUN === "1";
-const OVERLAY_PORT = Number.parseInt(process.env.OVERLAY_PORT ?? "8080", 10);
-const SLINGSHOT_URL =
-  process.env.SLINGSHOT_URL ?? "https://slingshot.microcosm.blue";
-const MAX_NON_COMMAND_CHAT_MESSAGES = 80;
-const MAX_COMMAND_CHAT_MESSAGES = 160;
-const MAX_TOTAL_CHAT_MESSAGES = 240;
-const MAX_QUEUE_ITEMS = 40;
-const IDENTITY_CACHE_TTL_MS = 15 * 60 * 1000;
-const CHATTER_WINDOW_MS = 10 * 60 * 1000;
-const MIN_UNIQUE_CHATTERS_FOR_NO_SPAM = 3;
-const MAX_COMMAND_SPAM_REPEAT = 100;
-const QUEUE_COMMAND_DELAY_MS = Number.parseInt(
-  process.env.QUEUE_COMMAND_DELAY_MS ?? "80",
-  10,
-);
-const SPAM_REPEAT_DELAY_MS = Number.parseInt(
-  process.env.SPAM_REPEAT_DELAY_MS ?? "140",
-  10,
-);
-
-type QueueStatus = "queued" | "active" | "done" | "error";
+import type { ServerWebSocket } from "bun";
+import { createAdminApi, type InjectResult, type RemoveQueueItemResult } from "./src/admin-api.ts";
+import { ChatResponder, type ChatResponderSettings, type ReplyTarget } from "./src/chat-responder.ts";
+import {
+  mergeChatSources,
+  type ChatBlockEvent,
+  type ChatDeleteEvent,
+  type ChatEditEvent,
+  type ChatMessageEvent,
+  type ChatSource,
+  type ChatSourceState,
+} from "./src/chat-source.ts";
+import {
+  CommandPolicy,
+  blockedStepProblems,
+  describePolicy,
+  policyProblems,
+  type PolicyViolation,
+} from "./src/command-policy.ts";
+import {
+  configureCommands,
+  executeCommand,
+  normalizeCommand,
+  parseCommand,
+  type ParsedCommand,
+} from "./src/commands.ts";
+import {
+  ConfigError,
+  loadConfig,
+  mergeReload,
+  redactConfig,
+  watchConfig,
+  MAIN_CHANNEL,
+  type ChannelConfig,
+  type Config,
+  type ConfigChange,
+  type OverlayPanel,
+} from "./src/config.ts";
+import {
+  detectGameVersion,
+  diffGameStates,
+  readGameState,
+  type GameState,
+  type GameVersion,
+  type Milestone,
+} from "./src/game-state.ts";
+import { IdentityResolver, type IdentityResolverSettings, type ResolvedIdentity } from "./src/identity-resolver.ts";
+import { InputLog, type InputOutcome } from "./src/input-log.ts";
+import { JetstreamChatSource } from "./src/jetstream-source.ts";
+import { LocalChatSource } from "./src/local-source.ts";
+import {
+  BridgeDisconnectedError,
+  supportsMemoryReads,
+  supportsPausing,
+  supportsSavestates,
+  type BridgeState,
+  type EmulatorBackend,
+  type KeyEvent,
+} from "./src/emulator-backend.ts";
+import {
+  MacroCooldowns,
+  attractProblems,
+  expandAttract,
+  expandMacro,
+  macroProblems,
+  parseMacroCall,
+  type MacroCall,
+} from "./src/macros.ts";
+import { MetricsRegistry } from "./src/metrics.ts";
+import { MgbaBridgeClient } from "./src/mgba-bridge.ts";
+import { OverlayDeltaEncoder } from "./src/overlay-delta.ts";
+import {
+  overlayPanelForPath,
+  renderOverlayPage,
+  resolveOverlayLayout,
+  themeStylesheet,
+} from "./src/overlay-layout.ts";
+import { RetroArchBackend } from "./src/retroarch-backend.ts";
+import { StatsStore, type ViewerStats } from "./src/stats-store.ts";
+import { TwitchChatSource } from "./src/twitch-source.ts";
+
+const CONFIG_FILE = process.env.CONFIG_FILE ?? "config.toml";
+let config: Config;
+try {
+  config = await loadConfig(CONFIG_FILE);
+} catch (error) {
+  if (error instanceof ConfigError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+configureCommands(config.commands);
+
+const MGBA_RECONNECT_MIN_DELAY_MS = 250;
+const RETROARCH_HEARTBEAT_INTERVAL_MS = 2000;
+const MAX_MILESTONES = 10;
+const MAX_RETRACTED_MESSAGE_KEYS = 1000;
+/** Server-side stand-in for an animation frame: changes within it go out as one update. */
+const BROADCAST_COALESCE_MS = 16;
+const DEFAULT_LEADERBOARD_SIZE = 10;
+const MAX_LEADERBOARD_SIZE = 100;
+const RECENT_STATS_SESSIONS = 10;
+const HEALTH_MAX_CHAT_LAG_MS = 30_000;
+const DISPATCH_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const AUTOSAVE_INTERVAL_MS = config.autosave.intervalMinutes * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 1000;
+/** Stands in for a viewer DID in the input log for attract loop inputs. */
+const ATTRACT_DID = "attract";
+
+type QueueStatus = "queued" | "active" | "done" | "error" | "rejected";
+type RejectionReason = "queue_full" | "user_limit" | "policy_blocked" | "policy_locked" | "policy_cooldown";
+type InputMode = "anarchy" | "democracy";
+type SavestateOperation = "saving" | "loading";
+/** What an idle channel does: pause the emulator, or play the attract loop. */
+type IdleMode = "paused" | "attract";
 
 interface ChatMessage {
   id: string;
+  source: string;
+  /** The platform's id for the message, when it can be edited or deleted later. */
+  messageId?: string;
   did: string;
   user: string;
   handle?: string;
@@ -62,174 +138,612 @@ interface QueueItem {
   command: string;
   status: QueueStatus;
   createdAt: number;
+  votes?: number;
+  rejectionReason?: RejectionReason;
+  /** `<source>:<messageId>` of the chat message this input came from. */
+  messageKey?: string;
+  /** Set on every input of one macro use, so the overlay can show them as a group. */
+  macro?: { name: string; runId: string; index: number; total: number };
+}
+
+/** A button the emulator is holding right now. */
+interface HeldButton {
+  button: string;
+  /** Whose input pressed it; null when it wasn't a queued input. */
+  did: string | null;
+  user: string | null;
+  frame: number | null;
+}
+
+interface BanEntry {
+  did: string;
+  label: string;
+  bannedBy: string;
+  bannedAt: number;
+}
+
+interface DemocracyTallyEntry {
+  command: ParsedCommand;
+  votes: number;
+  firstVoteAt: number;
+  firstDid: string;
 }
 
 interface OverlaySnapshot {
   chat: ChatMessage[];
+  chatSources: Array<ChatSourceState & { name: string }>;
   queue: QueueItem[];
   activeCommandId: string | null;
   spamAbility: {
     enabled: boolean;
+    override: boolean | null;
     uniqueChatters: number;
     threshold: number;
     windowMinutes: number;
   };
+  paused: boolean;
+  inputMode: {
+    mode: InputMode;
+    windowMs: number;
+    remainingMs: number | null;
+    tally: Array<{ command: string; votes: number }>;
+    meter: {
+      anarchy: number;
+      democracy: number;
+      threshold: number;
+      minVotes: number;
+    } | null;
+  };
+  bridge: BridgeState & { dryRun: boolean };
+  savestates: {
+    autosaveIntervalMs: number;
+    lastAutosaveSlot: number | null;
+    lastAutosaveAgoMs: number | null;
+    operation: SavestateOperation | null;
+    lastError: string | null;
+  };
+  game: GameState | null;
+  milestones: Milestone[];
+  /** The command policy in words, shown with the how-to-play tips. */
+  rules: string[];
+  /** What the emulator reports holding, for the controller graphic. */
+  controller: HeldButton[];
+  /** Set while chat is idle, for the banner in the how-to-play panel. */
+  idle: IdleMode | null;
 }
 
-interface ResolvedIdentity {
-  did: string;
-  handle?: string;
-  displayName?: string;
-  avatarUrl?: string;
+interface OverlaySocketData {
+  channel: Channel;
 }
 
-interface ParsedCommand {
-  buttons: string[];
-  durationMs: number;
-  normalized: string;
-  repeatCount: number;
-}
-
-const SUPPORTED_COMMANDS = new Set([
-  "up",
-  "down",
-  "left",
-  "right",
-  "a",
-  "b",
-  "start",
-  "select",
-  "l",
-  "r",
-]);
-
-const overlayClients = new Set<ReadableStreamDefaultController<string>>();
-const chatMessages: ChatMessage[] = [];
-const commandChatMessages: ChatMessage[] = [];
-const commandQueue: QueueItem[] = [];
-const identityCache = new Map<
-  string,
-  { identity: ResolvedIdentity; expiresAt: number }
->();
-const pendingIdentityLookups = new Map<string, Promise<ResolvedIdentity | null>>();
-const commandActivity: Array<{ did: string; createdAt: number }> = [];
-let activeCommandId: string | null = null;
-let processingQueue = false;
+/**
+ * One streamer's game: their chat, queue, votes and emulator. The top-level
+ * settings describe the `main` channel and each `[channels.<name>]` adds
+ * another; the chat sources, identity cache, bans and stats are shared.
+ */
+interface Channel {
+  name: string;
+  streamerDid: string;
+  /** `[name] ` in front of log lines once there is more than one channel. */
+  logPrefix: string;
+  bridge: EmulatorBackend;
+  emulatorTarget: string;
+  supportedButtons: ReadonlySet<string>;
+  overlayClients: Set<ReadableStreamDefaultController<string>>;
+  overlaySockets: Set<ServerWebSocket<OverlaySocketData>>;
+  overlayDeltas: OverlayDeltaEncoder<OverlaySnapshot>;
+  chatMessages: ChatMessage[];
+  commandChatMessages: ChatMessage[];
+  commandQueue: QueueItem[];
+  commandActivity: Array<{ did: string; createdAt: number }>;
+  democracyVotes: Map<string, { command: ParsedCommand; createdAt: number }>;
+  modeVotes: Map<string, { mode: InputMode; createdAt: number }>;
+  macroCooldowns: MacroCooldowns;
+  /** Streamer on/off switches that override a macro's `enabled` until the file changes it. */
+  macroToggles: Map<string, boolean>;
+  commandPolicy: CommandPolicy;
+  activeCommandId: string | null;
+  /** The last item to start dispatching; key-downs can arrive just after it finishes. */
+  lastActiveItem: QueueItem | null;
+  heldButtons: Map<string, HeldButton>;
+  processingQueue: boolean;
+  inputMode: InputMode;
+  democracyWindowEndsAt: number | null;
+  democracyWindowTimer: ReturnType<typeof setTimeout> | null;
+  lastBridgeStatus: BridgeState["status"] | null;
+  dispatchLock: Promise<void>;
+  broadcastTimer: ReturnType<typeof setTimeout> | null;
+  savestateOperation: SavestateOperation | null;
+  lastAutosave: { slot: number; at: number } | null;
+  lastSavestateError: string | null;
+  nextDryRunAutosaveIndex: number;
+  dispatchPaused: boolean;
+  resumeWaiters: Array<() => void>;
+  spamOverride: boolean | null;
+  queueGeneration: number;
+  dispatchTurn: number;
+  lastServedTurn: Map<string, number>;
+  /** Blocked by the streamer on the chat platform, per chat source event. */
+  platformBlockedDids: Set<string>;
+  retractedMessageKeys: Set<string>;
+  milestones: Milestone[];
+  detectedGame: GameVersion | null;
+  gameState: GameState | null;
+  pollingGameState: boolean;
+  warnedUnsupportedGame: boolean;
+  /** When the channel last accepted a command or vote. */
+  lastCommandAt: number;
+  idleMode: IdleMode | null;
+  /** What the emulator was last told; null until the listener knows. */
+  emulatorPaused: boolean | null;
+  attractRunning: boolean;
+}
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const bannedDids = new Map<string, BanEntry>();
+/** Read from `config.blocklistFile`, for users the streamer hasn't blocked on-network. */
+const localBlockedDids = new Set<string>();
+
+const inputLog =
+  config.inputLog.dir.length > 0
+    ? new InputLog({
+        dir: config.inputLog.dir,
+        maxBytes: config.inputLog.maxBytes,
+        maxFiles: config.inputLog.maxFiles,
+      })
+    : null;
+const statsStore = config.stats.db.length > 0 ? new StatsStore(config.stats.db) : null;
+const responder =
+  config.bot.identifier.length > 0
+    ? new ChatResponder({
+        pdsUrl: config.bot.pdsUrl,
+        identifier: config.bot.identifier,
+        password: config.bot.appPassword,
+        settings: responderSettings(config),
+      })
+    : null;
+const identityResolver = new IdentityResolver({
+  slingshotUrl: config.slingshotUrl,
+  plcUrl: config.identity.plcUrl,
+  cacheFile: config.identity.cacheFile,
+  timeoutMs: config.identity.timeoutMs,
+  maxConcurrent: config.identity.maxConcurrent,
+  breakerFailures: config.identity.breakerFailures,
+  breakerResetMs: config.identity.breakerResetMs,
+  settings: identitySettings(config),
+  onRequest: (upstream, result) => identityRequestsTotal.inc({ upstream, result }),
+});
+
+const mainChannel = createChannel(MAIN_CHANNEL, {
+  streamerDid: config.streamerDid,
+  backend: null,
+  host: null,
+  port: null,
+  inputPort: null,
+});
+const channels = [
+  mainChannel,
+  ...Object.entries(config.channels).map(([name, settings]) => createChannel(name, settings)),
+];
+const channelsByName = new Map(channels.map((channel) => [channel.name, channel]));
+const channelsByDid = new Map(channels.map((channel) => [channel.streamerDid, channel]));
+const startupProblems = commandProblems(config);
+if (startupProblems.length > 0) {
+  throw new Error(startupProblems.join("; "));
 }
 
-function normalizeCommand(raw: string): string {
-  return raw.trim().toLowerCase();
+function createChannel(name: string, settings: ChannelConfig): Channel {
+  const backend = settings.backend ?? config.emulator.backend;
+  const bridge = createEmulatorBackend(
+    backend,
+    settings,
+    (state) => handleBridgeStateChange(channel, state),
+    (event) => handleKeyEvent(channel, event),
+  );
+  const supportedButtons: ReadonlySet<string> = new Set(config.emulator.buttons ?? bridge.buttons);
+  for (const button of supportedButtons) {
+    if (!bridge.buttons.includes(button)) {
+      throw new Error(
+        `emulator.buttons includes "${button}", which the ${bridge.name} backend can't press (${bridge.buttons.join(", ")})`,
+      );
+    }
+  }
+  const host = settings.host ?? (backend === "retroarch" ? config.retroarch.host : config.mgba.host);
+  const channel: Channel = {
+    name,
+    streamerDid: settings.streamerDid,
+    logPrefix: Object.keys(config.channels).length > 0 ? `[${name}] ` : "",
+    bridge,
+    emulatorTarget:
+      backend === "retroarch"
+        ? `${host}:${settings.inputPort ?? config.retroarch.inputPort}`
+        : `${host}:${settings.port ?? config.mgba.port}`,
+    supportedButtons,
+    overlayClients: new Set(),
+    overlaySockets: new Set(),
+    overlayDeltas: new OverlayDeltaEncoder(),
+    chatMessages: [],
+    commandChatMessages: [],
+    commandQueue: [],
+    commandActivity: [],
+    democracyVotes: new Map(),
+    modeVotes: new Map(),
+    macroCooldowns: new MacroCooldowns(),
+    macroToggles: new Map(),
+    commandPolicy: new CommandPolicy(config.policy),
+    activeCommandId: null,
+    lastActiveItem: null,
+    heldButtons: new Map(),
+    processingQueue: false,
+    inputMode: config.inputMode.initial,
+    democracyWindowEndsAt: null,
+    democracyWindowTimer: null,
+    lastBridgeStatus: null,
+    dispatchLock: Promise.resolve(),
+    broadcastTimer: null,
+    savestateOperation: null,
+    lastAutosave: null,
+    lastSavestateError: null,
+    nextDryRunAutosaveIndex: 0,
+    dispatchPaused: false,
+    resumeWaiters: [],
+    spamOverride: null,
+    queueGeneration: 0,
+    dispatchTurn: 0,
+    lastServedTurn: new Map(),
+    platformBlockedDids: new Set(),
+    retractedMessageKeys: new Set(),
+    milestones: [],
+    detectedGame: null,
+    gameState: null,
+    pollingGameState: false,
+    warnedUnsupportedGame: false,
+    lastCommandAt: Date.now(),
+    idleMode: null,
+    emulatorPaused: null,
+    attractRunning: false,
+  };
+  return channel;
 }
 
-function parseCommand(raw: string, options?: { allowCommandSpam?: boolean }): ParsedCommand | null {
-  const normalizedRaw = normalizeCommand(raw);
-  if (normalizedRaw.length === 0) {
-    return null;
+/** `settings` overrides the top-level `[mgba]` or `[retroarch]` target. */
+function createEmulatorBackend(
+  name: string,
+  settings: ChannelConfig,
+  onStateChange: (state: BridgeState) => void,
+  onKeyEvent: (event: KeyEvent) => void,
+): EmulatorBackend {
+  switch (name) {
+    case "mgba":
+      return new MgbaBridgeClient({
+        host: settings.host ?? config.mgba.host,
+        port: settings.port ?? config.mgba.port,
+        requestTimeoutMs: config.mgba.socketTimeoutMs,
+        heartbeatIntervalMs: config.mgba.heartbeatIntervalMs,
+        minReconnectDelayMs: MGBA_RECONNECT_MIN_DELAY_MS,
+        maxReconnectDelayMs: config.mgba.reconnectMaxDelayMs,
+        onStateChange,
+        onKeyEvent,
+      });
+    case "retroarch":
+      return new RetroArchBackend({
+        host: settings.host ?? config.retroarch.host,
+        commandPort: settings.port ?? config.retroarch.commandPort,
+        inputPort: settings.inputPort ?? config.retroarch.inputPort,
+        requestTimeoutMs: config.retroarch.timeoutMs,
+        heartbeatIntervalMs: RETROARCH_HEARTBEAT_INTERVAL_MS,
+        onStateChange,
+        onKeyEvent,
+      });
+    default:
+      throw new Error(`Unknown emulator backend "${name}" (expected mgba or retroarch)`);
   }
+}
 
-  const spamMatch = normalizedRaw.match(/^(.+?)\s+x(\d+)$/);
-  if (spamMatch) {
-    if (!options?.allowCommandSpam) {
-      return null;
-    }
+function responderSettings(source: Config): ChatResponderSettings {
+  return {
+    minIntervalMs: source.bot.minIntervalMs,
+    userCooldownMs: source.bot.userCooldownMs,
+    replies: source.bot.replies,
+  };
+}
 
-    const commandRaw = spamMatch[1];
-    if (commandRaw === undefined) {
-      return null;
-    }
+function identitySettings(source: Config): IdentityResolverSettings {
+  return {
+    ttlMs: source.chat.identityCacheTtlMs,
+    maxStaleMs: source.identity.maxStaleMs,
+  };
+}
 
-    const repeatRaw = spamMatch[2];
-    if (repeatRaw === undefined) {
-      return null;
-    }
-    const repeatCount = Number.parseInt(repeatRaw, 10);
-    if (
-      !Number.isInteger(repeatCount) ||
-      repeatCount < 2 ||
-      repeatCount > MAX_COMMAND_SPAM_REPEAT
-    ) {
-      return null;
-    }
+function unsupportedAliases(candidate: Config, supportedButtons: ReadonlySet<string>): string[] {
+  return Object.entries(candidate.commands.aliases)
+    .filter(([, button]) => !supportedButtons.has(button))
+    .map(([alias, button]) => `commands.aliases.${alias} points at "${button}", which chat can't press`);
+}
 
-    const baseCommand = parseCommand(commandRaw, { allowCommandSpam: false });
-    if (!baseCommand) {
-      return null;
-    }
+/** Aliases, macros and policy rules that don't fit some channel's buttons. */
+function commandProblems(candidate: Config): string[] {
+  const problems = channels.flatMap((channel) => [
+    ...unsupportedAliases(candidate, channel.supportedButtons),
+    ...macroProblems(candidate.macros, channel.supportedButtons),
+    ...policyProblems(candidate.policy, channel.supportedButtons),
+    ...Object.entries(candidate.macros).flatMap(([name, macro]) =>
+      blockedStepProblems(`macros.${name}`, macro.steps, candidate.policy, channel.supportedButtons),
+    ),
+    ...attractProblems(candidate.idle.attract, channel.supportedButtons),
+    ...blockedStepProblems("idle.attract", candidate.idle.attract, candidate.policy, channel.supportedButtons),
+  ]);
+  return [...new Set(problems)];
+}
 
-    return {
-      buttons: baseCommand.buttons,
-      durationMs: baseCommand.durationMs,
-      normalized: baseCommand.normalized,
-      repeatCount,
-    };
+/**
+ * Applies a changed config file without a restart. Only settings marked
+ * reloadable take effect; the queue, chat and overlay connections are kept.
+ */
+function applyConfigReload(next: Config, changes: ConfigChange[]): void {
+  // Macro steps are checked against the new aliases and limits.
+  configureCommands(next.commands);
+  const problems = commandProblems(next);
+  if (problems.length > 0) {
+    configureCommands(config.commands);
+    console.error(`Ignoring ${CONFIG_FILE} change: ${problems.join("; ")}`);
+    return;
+  }
+  for (const channel of channels) {
+    for (const name of channel.macroToggles.keys()) {
+      if (next.macros[name]?.enabled !== config.macros[name]?.enabled) {
+        channel.macroToggles.delete(name);
+      }
+    }
   }
 
-  const isExtendedHold = normalizedRaw.endsWith("-");
-  const base = isExtendedHold
-    ? normalizedRaw.slice(0, -1).trim()
-    : normalizedRaw;
-  if (base.length === 0) {
-    return null;
+  const applied = changes.filter((change) => change.reloadable).map((change) => change.path);
+  const ignored = changes.filter((change) => !change.reloadable).map((change) => change.path);
+  config = next;
+  responder?.configure(responderSettings(config));
+  identityResolver.configure(identitySettings(config));
+  if (applied.length > 0) {
+    console.log(`Reloaded ${CONFIG_FILE}: ${applied.join(", ")}`);
+  }
+  if (ignored.length > 0) {
+    console.log(`Restart to apply: ${ignored.join(", ")}`);
+  }
+  for (const channel of channels) {
+    channel.commandPolicy.configure(config.policy);
+    trimQueue(channel);
+    broadcast(channel);
   }
+}
 
-  const buttons = base.split("+").map((part) => part.trim());
-  if (buttons.length === 0 || buttons.length > 2) {
-    return null;
+function handleBridgeStateChange(channel: Channel, state: BridgeState): void {
+  if (state.status === channel.lastBridgeStatus) {
+    return;
+  }
+  channel.lastBridgeStatus = state.status;
+  if (state.status === "connected") {
+    const protocol = state.protocolVersion === null ? "" : `, protocol v${state.protocolVersion}`;
+    console.log(`${channel.logPrefix}Emulator connected (${state.bridgeName ?? "unknown"}${protocol})`);
+    channel.detectedGame = null;
+    channel.gameState = null;
+    void refreshLastAutosave(channel);
+    // An emulator left paused by an earlier run resumes unless this channel is idle.
+    channel.emulatorPaused = null;
+    syncEmulatorPause(channel);
+  } else if (state.status === "disconnected" && state.lastError) {
+    console.error(
+      `${channel.logPrefix}Emulator disconnected: ${state.lastError} (retry #${state.reconnectAttempts}, queue paused)`,
+    );
   }
+  // A reconnecting bridge reports whatever is still held.
+  channel.heldButtons.clear();
+  broadcast(channel);
+}
 
-  for (const button of buttons) {
-    if (button.length === 0 || !SUPPORTED_COMMANDS.has(button)) {
-      return null;
+/** Tracks what the emulator is holding, credited to the input being dispatched. */
+function handleKeyEvent(channel: Channel, event: KeyEvent): void {
+  for (const button of event.buttons) {
+    if (event.down) {
+      channel.heldButtons.set(button, {
+        button,
+        did: channel.lastActiveItem?.did ?? null,
+        user: channel.lastActiveItem?.user ?? null,
+        frame: event.frame,
+      });
+    } else {
+      channel.heldButtons.delete(button);
     }
   }
+  broadcast(channel);
+}
 
-  const durationMs = isExtendedHold
-    ? LONG_KEYPRESS_DURATION_MS
-    : KEYPRESS_DURATION_MS;
-  return {
-    buttons,
-    durationMs,
-    normalized: `${buttons.join("+")}${isExtendedHold ? "-" : ""}`,
-    repeatCount: 1,
-  };
+const chatSources = config.chat.sources.map(createChatSource);
+
+function createChatSource(name: string): ChatSource {
+  switch (name) {
+    case "jetstream":
+      return new JetstreamChatSource({
+        url: config.jetstream.url,
+        streamerDids: channels.map((channel) => channel.streamerDid),
+        cursorFile: config.jetstream.cursorFile,
+        maxLookbackMs: config.jetstream.maxLookbackMs,
+        resolvePds: (did) => identityResolver.resolvePds(did),
+      });
+    case "twitch":
+      return new TwitchChatSource({
+        url: config.twitch.ircUrl,
+        channel: config.twitch.channel,
+        nick: config.twitch.nick ?? undefined,
+        token: config.twitch.oauthToken ?? undefined,
+        minReconnectDelayMs: 1000,
+        maxReconnectDelayMs: 30000,
+      });
+    case "local":
+      return new LocalChatSource({
+        path: config.local.file,
+        lineDelayMs: config.local.lineDelayMs,
+      });
+    default:
+      throw new Error(`Unknown chat source "${name}" (expected jetstream, twitch or local)`);
+  }
+}
+
+const metrics = new MetricsRegistry();
+const chatEventsTotal = metrics.counter("spp_chat_events_total", "Chat events received, by source and kind.");
+const commandsAcceptedTotal = metrics.counter(
+  "spp_commands_accepted_total",
+  "Chat commands queued or counted as votes, by channel and input mode.",
+);
+const commandsRejectedTotal = metrics.counter(
+  "spp_commands_rejected_total",
+  "Chat commands and repeats turned away, by channel and reason.",
+);
+const dispatchesTotal = metrics.counter(
+  "spp_dispatches_total",
+  "Queued commands sent to the emulator, by channel and outcome.",
+);
+const dispatchLatency = metrics.histogram(
+  "spp_dispatch_latency_seconds",
+  "Time from queueing a command to sending it to the emulator, by channel.",
+  DISPATCH_LATENCY_BUCKETS,
+);
+const identityLookupsTotal = metrics.counter(
+  "spp_identity_lookups_total",
+  "Identity lookups, by result.",
+);
+const identityRequestsTotal = metrics.counter(
+  "spp_identity_requests_total",
+  "Requests to identity upstreams, by upstream and result.",
+);
+const identityCacheTotal = metrics.counter(
+  "spp_identity_cache_requests_total",
+  "Identity cache reads for chatters, by hit, stale or miss.",
+);
+metrics.gauge("spp_identity_breaker_open", "Whether requests to each identity upstream host are paused.", () =>
+  identityResolver.breakerStates().map(({ host, open }) => ({ labels: { host }, value: open ? 1 : 0 })),
+);
+metrics.gauge("spp_queue_depth", "Commands waiting in the queue, by channel.", () =>
+  channels.map((channel) => ({
+    labels: { channel: channel.name },
+    value: channel.commandQueue.filter((item) => item.status === "queued").length,
+  })),
+);
+metrics.gauge("spp_overlay_clients", "Connected overlay clients, by channel and transport.", () =>
+  channels.flatMap((channel) => [
+    { labels: { channel: channel.name, transport: "sse" }, value: channel.overlayClients.size },
+    { labels: { channel: channel.name, transport: "ws" }, value: channel.overlaySockets.size },
+  ]),
+);
+metrics.gauge("spp_bridge_up", "Whether each channel's emulator backend is connected.", () =>
+  channels.map((channel) => ({ labels: { channel: channel.name }, value: channel.bridge.connected ? 1 : 0 })),
+);
+metrics.gauge("spp_bridge_latency_seconds", "Round trip of the last acknowledged emulator request.", () =>
+  channels.flatMap((channel) => {
+    const { latencyMs } = channel.bridge.state;
+    return latencyMs === null ? [] : [{ labels: { channel: channel.name }, value: latencyMs / 1000 }];
+  }),
+);
+metrics.collectedCounter(
+  "spp_bridge_errors_total",
+  "Emulator requests answered with an error, and connections lost.",
+  () => channels.map((channel) => ({ labels: { channel: channel.name }, value: channel.bridge.state.errorCount })),
+);
+metrics.collectedCounter(
+  "spp_bridge_timeouts_total",
+  "Emulator requests and handshakes that got no answer in time.",
+  () => channels.map((channel) => ({ labels: { channel: channel.name }, value: channel.bridge.state.timeoutCount })),
+);
+metrics.gauge("spp_chat_source_up", "Whether each chat source is connected.", () =>
+  chatSources.map((source) => ({
+    labels: { source: source.name },
+    value: source.state.status === "connected" ? 1 : 0,
+  })),
+);
+metrics.gauge("spp_chat_source_lag_seconds", "How far behind real time each chat source's last event was.", () =>
+  chatSources.flatMap((source) =>
+    source.state.lagMs === null ? [] : [{ labels: { source: source.name }, value: source.state.lagMs / 1000 }],
+  ),
+);
+
+/**
+ * Degraded while an emulator is unreachable or a chat source is down or
+ * lagging. The main channel's emulator is `bridge`, the others `bridge:<name>`.
+ */
+function healthReport(): { status: "ok" | "degraded"; checks: Record<string, unknown> } {
+  const checks: Record<string, unknown> = {};
+  let healthy = true;
+
+  for (const channel of channels) {
+    const bridgeState = channel.bridge.state;
+    const bridgeOk = config.emulator.dryRun || bridgeState.status === "connected";
+    healthy &&= bridgeOk;
+    checks[channel === mainChannel ? "bridge" : `bridge:${channel.name}`] = {
+      ok: bridgeOk,
+      status: config.emulator.dryRun ? "dry_run" : bridgeState.status,
+      lastError: bridgeState.lastError,
+    };
+  }
+
+  for (const source of chatSources) {
+    const { status, lagMs, lastError } = source.state;
+    // A local file that has been read to the end is done, not down.
+    const ok =
+      (status === "connected" || (status === "ended" && source.name === "local")) &&
+      (lagMs === null || lagMs <= HEALTH_MAX_CHAT_LAG_MS);
+    healthy &&= ok;
+    checks[`chat:${source.name}`] = { ok, status, lagMs, lastError };
+  }
+
+  return { status: healthy ? "ok" : "degraded", checks };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function countUniqueChattersInWindow(now: number): number {
-  const cutoff = now - CHATTER_WINDOW_MS;
+function countUniqueChattersInWindow(channel: Channel, now: number): number {
+  const cutoff = now - config.spam.chatterWindowMs;
   while (true) {
-    const first = commandActivity[0];
+    const first = channel.commandActivity[0];
     if (!first || first.createdAt >= cutoff) {
       break;
     }
-    commandActivity.shift();
+    channel.commandActivity.shift();
   }
-  return new Set(commandActivity.map((entry) => entry.did)).size;
+  return new Set(channel.commandActivity.map((entry) => entry.did)).size;
 }
 
-function recordChatterAndCountUnique(did: string, now: number): number {
-  commandActivity.push({ did, createdAt: now });
-  return countUniqueChattersInWindow(now);
+function isSpamEnabled(channel: Channel, uniqueChatters: number): boolean {
+  return channel.spamOverride ?? uniqueChatters < config.spam.minUniqueChatters;
 }
 
-function readMessageText(record: Record<string, unknown>): string | undefined {
-  const candidates = [
-    record.text,
-    record.message,
-    record.body,
-    record.content,
-    typeof record.msg === "string" ? record.msg : undefined,
-  ];
+function recordChatterAndCountUnique(channel: Channel, did: string, now: number): number {
+  channel.commandActivity.push({ did, createdAt: now });
+  return countUniqueChattersInWindow(channel, now);
+}
 
-  for (const value of candidates) {
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value;
-    }
+function parseModeVote(raw: string): InputMode | null {
+  if (!config.inputMode.voting) {
+    return null;
+  }
+
+  const normalized = normalizeCommand(raw);
+  if (normalized === "anarchy" || normalized === "democracy") {
+    return normalized;
   }
 
-  return undefined;
+  return null;
+}
+
+function countModeVotesInWindow(channel: Channel, now: number): { anarchy: number; democracy: number } {
+  const cutoff = now - config.inputMode.voteWindowMs;
+  const counts = { anarchy: 0, democracy: 0 };
+  for (const [did, vote] of channel.modeVotes) {
+    if (vote.createdAt < cutoff) {
+      channel.modeVotes.delete(did);
+      continue;
+    }
+    counts[vote.mode] += 1;
+  }
+  return counts;
 }
 
 function isObject(value: unknown): value is Record<string, unknown> {
@@ -249,53 +763,6 @@ function formatHandle(handle: string): string {
   return `@${normalized}`;
 }
 
-function readFirstNonEmptyString(...values: unknown[]): string | undefined {
-  for (const value of values) {
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-  return undefined;
-}
-
-function localIdentityFromRecord(
-  did: string,
-  record: Record<string, unknown>,
-): ResolvedIdentity | null {
-  const handle = readFirstNonEmptyString(record.handle, record.username, record.userHandle);
-  const displayName = readFirstNonEmptyString(
-    record.displayName,
-    record.name,
-    record.user,
-    record.sender,
-    record.author,
-  );
-  const avatarUrl = readFirstNonEmptyString(
-    record.avatarUrl,
-    record.avatar,
-    record.pfp,
-    record.profileImage,
-  );
-
-  if (!handle && !displayName && !avatarUrl) {
-    return null;
-  }
-
-  return { did, handle, displayName, avatarUrl };
-}
-
-function readUser(record: Record<string, unknown>, did: string): string {
-  const candidates = [record.user, record.sender, record.author, record.handle];
-
-  for (const value of candidates) {
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-
-  return shortenDid(did);
-}
-
 function userLabelForIdentity(identity: ResolvedIdentity, fallbackDid: string): string {
   if (identity.displayName && identity.displayName.trim().length > 0) {
     return identity.displayName.trim();
@@ -317,29 +784,93 @@ function queueLabelForIdentity(identity: ResolvedIdentity, fallbackDid: string):
 }
 
 function cachedIdentityForDid(did: string): ResolvedIdentity | null {
-  const cached = identityCache.get(did);
-  if (!cached || cached.expiresAt <= Date.now()) {
-    return null;
+  return identityResolver.cached(did);
+}
+
+/** `command` as chat would type it, `xN` repeats included. */
+function commandLabel(command: ParsedCommand): string {
+  return command.repeatCount > 1 ? `${command.normalized} x${command.repeatCount}` : command.normalized;
+}
+
+/** Votes that differ only in their `xN` count are tallied apart. */
+function tallyDemocracyVotes(channel: Channel): DemocracyTallyEntry[] {
+  const entries = new Map<string, DemocracyTallyEntry>();
+  for (const [did, vote] of channel.democracyVotes) {
+    const key = commandLabel(vote.command);
+    const existing = entries.get(key);
+    if (!existing) {
+      entries.set(key, {
+        command: vote.command,
+        votes: 1,
+        firstVoteAt: vote.createdAt,
+        firstDid: did,
+      });
+      continue;
+    }
+
+    existing.votes += 1;
+    if (vote.createdAt < existing.firstVoteAt) {
+      existing.firstVoteAt = vote.createdAt;
+      existing.firstDid = did;
+    }
   }
 
-  return cached.identity;
+  return [...entries.values()].sort(
+    (a, b) => b.votes - a.votes || a.firstVoteAt - b.firstVoteAt,
+  );
 }
 
-function snapshot(): OverlaySnapshot {
-  const uniqueChatters = countUniqueChattersInWindow(Date.now());
-  const chat = [...chatMessages, ...commandChatMessages]
+function snapshot(channel: Channel): OverlaySnapshot {
+  const now = Date.now();
+  const uniqueChatters = countUniqueChattersInWindow(channel, now);
+  const chat = [...channel.chatMessages, ...channel.commandChatMessages]
     .sort((a, b) => a.createdAt - b.createdAt)
-    .slice(-MAX_TOTAL_CHAT_MESSAGES);
+    .slice(-config.chat.maxTotalMessages);
   return {
     chat,
-    queue: commandQueue,
-    activeCommandId,
+    chatSources: chatSources.map((source) => ({ name: source.name, ...source.state })),
+    queue: channel.commandQueue,
+    activeCommandId: channel.activeCommandId,
     spamAbility: {
-      enabled: uniqueChatters < MIN_UNIQUE_CHATTERS_FOR_NO_SPAM,
+      enabled: isSpamEnabled(channel, uniqueChatters),
+      override: channel.spamOverride,
       uniqueChatters,
-      threshold: MIN_UNIQUE_CHATTERS_FOR_NO_SPAM,
-      windowMinutes: CHATTER_WINDOW_MS / (60 * 1000),
+      threshold: config.spam.minUniqueChatters,
+      windowMinutes: config.spam.chatterWindowMs / (60 * 1000),
+    },
+    paused: channel.dispatchPaused,
+    inputMode: {
+      mode: channel.inputMode,
+      windowMs: config.inputMode.democracyWindowMs,
+      remainingMs:
+        channel.democracyWindowEndsAt === null
+          ? null
+          : Math.max(0, channel.democracyWindowEndsAt - now),
+      tally: tallyDemocracyVotes(channel).map((entry) => ({
+        command: commandLabel(entry.command),
+        votes: entry.votes,
+      })),
+      meter: config.inputMode.voting
+        ? {
+            ...countModeVotesInWindow(channel, now),
+            threshold: config.inputMode.switchRatio,
+            minVotes: config.inputMode.minVotesForSwitch,
+          }
+        : null,
     },
+    bridge: { ...channel.bridge.state, dryRun: config.emulator.dryRun },
+    savestates: {
+      autosaveIntervalMs: AUTOSAVE_INTERVAL_MS,
+      lastAutosaveSlot: channel.lastAutosave?.slot ?? null,
+      lastAutosaveAgoMs: channel.lastAutosave ? now - channel.lastAutosave.at : null,
+      operation: channel.savestateOperation,
+      lastError: channel.lastSavestateError,
+    },
+    game: channel.gameState,
+    milestones: channel.milestones,
+    rules: describePolicy(config.policy),
+    controller: [...channel.heldButtons.values()],
+    idle: channel.idleMode,
   };
 }
 
@@ -350,48 +881,86 @@ function sendToClient(
   controller.enqueue(`data: ${JSON.stringify(data)}\n\n`);
 }
 
-function broadcast(): void {
-  const data = snapshot();
-  for (const client of [...overlayClients]) {
+/** Schedules one overlay update for everything that changes within `BROADCAST_COALESCE_MS`. */
+function broadcast(channel: Channel): void {
+  if (channel.broadcastTimer) {
+    return;
+  }
+  channel.broadcastTimer = setTimeout(() => flushBroadcast(channel), BROADCAST_COALESCE_MS);
+}
+
+/** SSE clients get the full snapshot; WebSocket clients get the delta since the last flush. */
+function flushBroadcast(channel: Channel): void {
+  if (channel.broadcastTimer) {
+    clearTimeout(channel.broadcastTimer);
+    channel.broadcastTimer = null;
+  }
+
+  const data = snapshot(channel);
+  for (const client of [...channel.overlayClients]) {
     try {
       sendToClient(client, data);
     } catch {
-      overlayClients.delete(client);
+      channel.overlayClients.delete(client);
     }
   }
+
+  const delta = channel.overlayDeltas.advance(data);
+  if (!delta) {
+    return;
+  }
+  const payload = JSON.stringify(delta);
+  for (const socket of channel.overlaySockets) {
+    socket.send(payload);
+  }
 }
 
-function pushChatMessage(
-  did: string,
-  user: string,
-  text: string,
-  isCommand: boolean,
-): void {
+/** Brings the delta encoder up to date and sends its snapshot to one socket. */
+function sendOverlaySnapshot(channel: Channel, socket: ServerWebSocket<OverlaySocketData>): void {
+  flushBroadcast(channel);
+  let current = channel.overlayDeltas.current();
+  if (!current) {
+    channel.overlayDeltas.advance(snapshot(channel));
+    current = channel.overlayDeltas.current();
+  }
+  socket.send(JSON.stringify(current));
+}
+
+function pushChatMessage(channel: Channel, event: ChatMessageEvent, user: string, isCommand: boolean): void {
   const message: ChatMessage = {
     id: `${Date.now()}-${Math.random().toString(16).slice(2, 9)}`,
-    did,
+    source: event.source,
+    messageId: event.messageId,
+    did: event.did,
     user,
-    text,
+    text: event.text,
     isCommand,
     createdAt: Date.now(),
   };
 
-  const target = isCommand ? commandChatMessages : chatMessages;
+  const target = isCommand ? channel.commandChatMessages : channel.chatMessages;
   const limit = isCommand
-    ? MAX_COMMAND_CHAT_MESSAGES
-    : MAX_NON_COMMAND_CHAT_MESSAGES;
+    ? config.chat.maxCommandMessages
+    : config.chat.maxNonCommandMessages;
   target.push(message);
   if (target.length > limit) {
     target.splice(0, target.length - limit);
   }
 
-  broadcast();
+  broadcast(channel);
 }
 
+/** Relabels `identity`'s messages and inputs on every channel's overlay. */
 function applyIdentityToOverlay(identity: ResolvedIdentity): void {
+  for (const channel of channels) {
+    applyIdentityToChannel(channel, identity);
+  }
+}
+
+function applyIdentityToChannel(channel: Channel, identity: ResolvedIdentity): void {
   let changed = false;
 
-  for (const messages of [chatMessages, commandChatMessages]) {
+  for (const messages of [channel.chatMessages, channel.commandChatMessages]) {
     for (const message of messages) {
       if (message.did !== identity.did) {
         continue;
@@ -411,7 +980,7 @@ function applyIdentityToOverlay(identity: ResolvedIdentity): void {
     }
   }
 
-  for (const item of commandQueue) {
+  for (const item of channel.commandQueue) {
     if (item.did !== identity.did) {
       continue;
     }
@@ -430,280 +999,1274 @@ function applyIdentityToOverlay(identity: ResolvedIdentity): void {
   }
 
   if (changed) {
-    broadcast();
+    channel.overlayDeltas.noteIdentity({
+      did: identity.did,
+      chatUser: userLabelForIdentity(identity, identity.did),
+      queueUser: queueLabelForIdentity(identity, identity.did),
+      handle: identity.handle,
+      avatarUrl: identity.avatarUrl,
+    });
+    broadcast(channel);
   }
 }
 
-function parseJsonObject(value: unknown): Record<string, unknown> | null {
-  if (!isObject(value)) {
-    return null;
+/** Labels `did` from the cache, refreshing it in the background once it is stale. */
+function hydrateIdentity(did: string): void {
+  const cached = identityResolver.peek(did);
+  identityCacheTotal.inc({ result: cached === null ? "miss" : cached.stale ? "stale" : "hit" });
+  if (cached) {
+    applyIdentityToOverlay(cached.identity);
   }
-
-  return value;
-}
-
-function extractAvatarUrl(did: string, profileValue: Record<string, unknown>): string | undefined {
-  const avatar = parseJsonObject(profileValue.avatar);
-  const ref = avatar ? parseJsonObject(avatar.ref) : null;
-  const link = ref?.$link;
-  if (typeof link !== "string" || link.length === 0) {
-    return undefined;
+  if ((cached && !cached.stale) || !identityResolver.shouldResolve(did)) {
+    return;
   }
 
-  return `https://cdn.bsky.app/img/avatar/plain/${did}/${link}@jpeg`;
+  identityResolver
+    .resolve(did)
+    .then((identity) => {
+      identityLookupsTotal.inc({ result: identity ? "success" : "not_found" });
+      if (identity) {
+        applyIdentityToOverlay(identity);
+        statsStore?.updateIdentity(did, identity);
+      }
+    })
+    .catch((error: unknown) => {
+      identityLookupsTotal.inc({ result: "failure" });
+      console.error(`Failed to resolve identity for ${did}:`, error instanceof Error ? error.message : error);
+    });
 }
 
-async function fetchIdentityFromSlingshot(did: string): Promise<ResolvedIdentity | null> {
-  const identityUrl = new URL(
-    "/xrpc/blue.microcosm.identity.resolveMiniDoc",
-    SLINGSHOT_URL,
-  );
-  identityUrl.searchParams.set("identifier", did);
-
-  const profileUrl = new URL("/xrpc/com.atproto.repo.getRecord", SLINGSHOT_URL);
-  profileUrl.searchParams.set("repo", did);
-  profileUrl.searchParams.set("collection", "app.bsky.actor.profile");
-  profileUrl.searchParams.set("rkey", "self");
+function cacheLocalIdentity(identity: ResolvedIdentity): void {
+  identityResolver.remember(identity);
+  applyIdentityToOverlay(identity);
+  statsStore?.updateIdentity(identity.did, identity);
+}
 
-  const [identityResult, profileResult] = await Promise.allSettled([
-    fetch(identityUrl),
-    fetch(profileUrl),
-  ]);
+/** `sourceLabel` is the name the chat source sent, kept until an identity resolves. */
+function recordViewerStats(
+  did: string,
+  command: ParsedCommand,
+  now: number,
+  sourceLabel?: string,
+): void {
+  if (!statsStore) {
+    return;
+  }
+  const identity = cachedIdentityForDid(did) ?? { displayName: sourceLabel };
+  try {
+    statsStore.recordCommand(did, command, now, identity);
+  } catch (error) {
+    console.error(`Failed to record stats for ${did}:`, error);
+  }
+}
 
-  let handle: string | undefined;
-  let displayName: string | undefined;
-  let avatarUrl: string | undefined;
+/**
+ * Labels a stored viewer from the identity cache, falling back to the label
+ * saved with their stats, and starts a lookup when the cache is cold or stale.
+ */
+function withCachedIdentity<T extends ViewerStats>(viewer: T): T & { user: string } {
+  const cached = identityResolver.peek(viewer.did);
+  if ((!cached || cached.stale) && viewer.did.startsWith("did:")) {
+    hydrateIdentity(viewer.did);
+  }
+  const identity: ResolvedIdentity = cached?.identity ?? {
+    did: viewer.did,
+    handle: viewer.handle ?? undefined,
+    displayName: viewer.displayName ?? undefined,
+    avatarUrl: viewer.avatarUrl ?? undefined,
+  };
+  return {
+    ...viewer,
+    handle: identity.handle ?? null,
+    displayName: identity.displayName ?? null,
+    avatarUrl: identity.avatarUrl ?? null,
+    user: userLabelForIdentity(identity, viewer.did),
+  };
+}
 
-  if (identityResult.status === "fulfilled" && identityResult.value.ok) {
-    const payload = (await identityResult.value.json()) as Record<string, unknown>;
-    if (typeof payload.handle === "string" && payload.handle.trim().length > 0) {
-      handle = payload.handle.trim();
+/**
+ * Drops the oldest finished items once the strip exceeds `config.queue.maxItems`.
+ * Pending items are never trimmed; admission control bounds those instead.
+ */
+function trimQueue(channel: Channel): void {
+  let overflow = channel.commandQueue.length - config.queue.maxItems;
+  for (let i = 0; i < channel.commandQueue.length && overflow > 0; ) {
+    const item = channel.commandQueue[i];
+    if (item && item.status !== "queued" && item.status !== "active") {
+      channel.commandQueue.splice(i, 1);
+      overflow -= 1;
+      continue;
     }
+    i += 1;
   }
 
-  if (profileResult.status === "fulfilled" && profileResult.value.ok) {
-    const payload = (await profileResult.value.json()) as Record<string, unknown>;
-    const profileValue = parseJsonObject(payload.value);
-    if (profileValue) {
-      if (
-        typeof profileValue.displayName === "string" &&
-        profileValue.displayName.trim().length > 0
-      ) {
-        displayName = profileValue.displayName.trim();
-      }
-      avatarUrl = extractAvatarUrl(did, profileValue);
+  // Forgetting a turn older than every pending DID's turn doesn't change the
+  // round-robin order, so those entries can go.
+  const pendingDids = new Set(
+    channel.commandQueue.filter((item) => item.status === "queued").map((item) => item.did),
+  );
+  const oldestPendingTurn = Math.min(
+    ...[...pendingDids].map((did) => channel.lastServedTurn.get(did) ?? -1),
+  );
+  for (const [did, turn] of channel.lastServedTurn) {
+    if (!pendingDids.has(did) && turn < oldestPendingTurn) {
+      channel.lastServedTurn.delete(did);
     }
   }
+}
 
-  if (!handle && !displayName && !avatarUrl) {
-    return null;
+function admissionRejection(
+  channel: Channel,
+  did: string,
+  options?: { bypassUserLimit?: boolean },
+): RejectionReason | null {
+  let pending = 0;
+  let pendingForUser = 0;
+  for (const item of channel.commandQueue) {
+    if (item.status !== "queued") {
+      continue;
+    }
+    pending += 1;
+    if (item.did === did) {
+      pendingForUser += 1;
+    }
   }
 
-  return { did, handle, displayName, avatarUrl };
+  if (pending >= config.queue.maxPending) {
+    return "queue_full";
+  }
+  if (!options?.bypassUserLimit && pendingForUser >= config.queue.maxPendingPerUser) {
+    return "user_limit";
+  }
+  return null;
 }
 
-function hydrateIdentity(did: string): void {
-  const now = Date.now();
-  const cached = identityCache.get(did);
-  if (cached && cached.expiresAt > now) {
-    applyIdentityToOverlay(cached.identity);
-    return;
+/** Round-robin across DIDs: the least recently served DID's oldest item goes next. */
+function nextQueuedItem(channel: Channel): QueueItem | undefined {
+  let best: QueueItem | undefined;
+  let bestTurn = Number.POSITIVE_INFINITY;
+  const seen = new Set<string>();
+  for (const item of channel.commandQueue) {
+    if (item.status !== "queued" || seen.has(item.did)) {
+      continue;
+    }
+    seen.add(item.did);
+    const turn = channel.lastServedTurn.get(item.did) ?? -1;
+    if (turn < bestTurn) {
+      best = item;
+      bestTurn = turn;
+    }
   }
+  return best;
+}
 
-  if (pendingIdentityLookups.has(did)) {
-    return;
+async function dispatchButtons(
+  channel: Channel,
+  buttons: string[],
+  durationMs: number,
+): Promise<number | null> {
+  if (config.emulator.dryRun) {
+    console.log(
+      `${channel.logPrefix}[DRY_RUN] ${buttons.join("+")} (${durationMs}ms) -> ${channel.emulatorTarget}`,
+    );
+    // No emulator to report key state, so the controller shows what would be sent.
+    handleKeyEvent(channel, { buttons, down: true, frame: null });
+    await sleep(durationMs);
+    handleKeyEvent(channel, { buttons, down: false, frame: null });
+    return null;
   }
 
-  const lookup = fetchIdentityFromSlingshot(did)
-    .then((identity) => {
-      if (!identity) {
-        return null;
-      }
-
-      identityCache.set(did, {
-        identity,
-        expiresAt: Date.now() + IDENTITY_CACHE_TTL_MS,
-      });
-      applyIdentityToOverlay(identity);
-      return identity;
-    })
-    .catch((error) => {
-      console.error(`Failed to resolve identity for ${did}:`, error);
-      return null;
-    })
-    .finally(() => {
-      pendingIdentityLookups.delete(did);
-    });
+  return channel.bridge.press(buttons, durationMs);
+}
 
-  pendingIdentityLookups.set(did, lookup);
+function buildQueueItem(command: string, did: string): QueueItem {
+  const cachedIdentity = cachedIdentityForDid(did);
+  const user = cachedIdentity
+    ? queueLabelForIdentity(cachedIdentity, did)
+    : shortenDid(did);
+  return {
+    id: `${Date.now()}-${Math.random().toString(16).slice(2, 9)}`,
+    did,
+    user,
+    handle: cachedIdentity?.handle,
+    avatarUrl: cachedIdentity?.avatarUrl,
+    command,
+    status: "queued",
+    createdAt: Date.now(),
+  };
 }
 
-function cacheLocalIdentity(identity: ResolvedIdentity): void {
-  identityCache.set(identity.did, {
-    identity,
-    expiresAt: Date.now() + IDENTITY_CACHE_TTL_MS,
-  });
-  applyIdentityToOverlay(identity);
+/** The policy rule `command` breaks, or null; the streamer is never held back. */
+function policyViolation(channel: Channel, command: ParsedCommand, did: string, now: number): PolicyViolation | null {
+  if (did === channel.streamerDid) {
+    return null;
+  }
+  return channel.commandPolicy.check(command, countUniqueChattersInWindow(channel, now), now);
 }
 
-function trimQueue(): void {
-  if (commandQueue.length <= MAX_QUEUE_ITEMS) {
-    return;
+/**
+ * Queues one input, or records it as rejected when the command policy or
+ * admission control says no. Returns whether the input was accepted.
+ */
+function enqueueSingleCommand(
+  channel: Channel,
+  command: ParsedCommand,
+  did: string,
+  options?: { votes?: number; bypassUserLimit?: boolean; messageKey?: string; replyTo?: ReplyTarget },
+): boolean {
+  const now = Date.now();
+  const item = buildQueueItem(command.normalized, did);
+  item.votes = options?.votes;
+  item.messageKey = options?.messageKey;
+  const violation = policyViolation(channel, command, did, now);
+  const rejection = violation ? (`policy_${violation.outcome}` as const) : admissionRejection(channel, did, options);
+  if (rejection) {
+    item.status = "rejected";
+    item.rejectionReason = rejection;
+    commandsRejectedTotal.inc({ channel: channel.name, reason: rejection });
+    console.log(`${channel.logPrefix}rejected "${command.normalized}" from ${item.user}: ${violation?.reason ?? rejection}`);
+    if (options?.replyTo && violation) {
+      responder?.reply("policy", options.replyTo, { command: command.normalized, reason: violation.reason });
+    } else if (options?.replyTo) {
+      const queueFull = rejection === "queue_full";
+      responder?.reply(queueFull ? "queueFull" : "userLimit", options.replyTo, {
+        command: command.normalized,
+        limit: `${queueFull ? config.queue.maxPending : config.queue.maxPendingPerUser}`,
+      });
+    }
+  } else {
+    channel.commandPolicy.record(command, now);
+    noteCommandActivity(channel, now);
   }
 
-  const overflow = commandQueue.length - MAX_QUEUE_ITEMS;
-  commandQueue.splice(0, overflow);
+  channel.commandQueue.push(item);
+  trimQueue(channel);
+  broadcast(channel);
+  if (!rejection) {
+    void processQueue(channel);
+  }
+  return !rejection;
 }
 
-async function dispatchMgbaCommand(buttons: string[], durationMs: number): Promise<void> {
-  if (DRY_RUN) {
-    console.log(
-      `[DRY_RUN] ${buttons.join("+")} (${durationMs}ms) -> ${MGBA_HOST}:${MGBA_PORT}`,
-    );
-    await sleep(durationMs);
-    return;
+/**
+ * Queues `command` and then its `xN` repeats, each checked as it is queued.
+ * Returns whether the first input was accepted.
+ */
+function enqueueCommand(
+  channel: Channel,
+  command: ParsedCommand,
+  did: string,
+  options?: { votes?: number; bypassUserLimit?: boolean; messageKey?: string; replyTo?: ReplyTarget },
+): boolean {
+  if (!enqueueSingleCommand(channel, command, did, options)) {
+    return false;
+  }
+  if (command.repeatCount <= 1) {
+    return true;
   }
 
-  await new Promise<void>((resolve, reject) => {
-    const socket = createConnection({ host: MGBA_HOST, port: MGBA_PORT });
-    let settled = false;
+  // Only the first input of a message is answered in chat.
+  const repeatOptions = { ...options, replyTo: undefined };
+  const messageKey = options?.messageKey;
 
-    const fail = (error: Error): void => {
-      if (settled) {
+  const generation = channel.queueGeneration;
+  void (async () => {
+    for (let i = 1; i < command.repeatCount; i += 1) {
+      await sleep(config.queue.spamRepeatDelayMs);
+      if (
+        generation !== channel.queueGeneration ||
+        bannedDids.has(did) ||
+        isBlocked(channel, did) ||
+        (messageKey !== undefined && channel.retractedMessageKeys.has(messageKey))
+      ) {
         return;
       }
-      settled = true;
-      socket.destroy();
-      reject(error);
-    };
+      if (!enqueueSingleCommand(channel, command, did, repeatOptions)) {
+        return;
+      }
+    }
+  })();
+  return true;
+}
 
-    socket.setTimeout(MGBA_SOCKET_TIMEOUT_MS);
+function isMacroEnabled(channel: Channel, name: string): boolean {
+  return channel.macroToggles.get(name) ?? config.macros[name]?.enabled ?? false;
+}
 
-    socket.once("timeout", () => {
-      fail(
-        new Error(
-          `Timed out sending command to mGBA bridge at ${MGBA_HOST}:${MGBA_PORT}`,
-        ),
-      );
-    });
+function setMacroEnabled(channel: Channel, name: string, enabled: boolean): boolean {
+  if (!(name in config.macros)) {
+    return false;
+  }
+  channel.macroToggles.set(name, enabled);
+  console.log(`${channel.logPrefix}Macro !${name} ${enabled ? "enabled" : "disabled"}`);
+  return true;
+}
 
-    socket.once("error", (error) => {
-      fail(error);
-    });
+function listMacros(channel: Channel): unknown[] {
+  return Object.entries(config.macros).map(([name, macro]) => ({
+    name,
+    ...macro,
+    enabled: isMacroEnabled(channel, name),
+  }));
+}
 
-    socket.once("connect", () => {
-      const payload = buttons.map((button) => `press ${button} ${durationMs}\n`).join("");
-      socket.write(payload, "utf8", (error) => {
-        if (error) {
-          fail(error);
-          return;
-        }
-        socket.end();
-      });
+/**
+ * Queues every input of one macro use together, tagged with one run id.
+ * The whole use is rejected when it doesn't fit in the queue; the sender's
+ * per-user limit doesn't apply, since the cooldowns already bound it. Each
+ * input goes through the command policy like a chat input, and the macro
+ * stops at the first one the policy turns away. Returns the inputs that were
+ * queued, none when the use was rejected.
+ */
+function enqueueMacro(
+  channel: Channel,
+  call: MacroCall,
+  did: string,
+  replyTo: ReplyTarget,
+  messageKey?: string,
+): ParsedCommand[] {
+  const macro = config.macros[call.name];
+  if (!macro) {
+    return [];
+  }
+  const label = `!${call.name}`;
+  if (!isMacroEnabled(channel, call.name)) {
+    commandsRejectedTotal.inc({ channel: channel.name, reason: "macro_disabled" });
+    console.log(`${channel.logPrefix}rejected ${label} from ${replyTo.user}: macro is off`);
+    return [];
+  }
+
+  const now = Date.now();
+  const remainingMs = channel.macroCooldowns.remainingMs(call.name, did, macro, now);
+  if (remainingMs > 0) {
+    commandsRejectedTotal.inc({ channel: channel.name, reason: "macro_cooldown" });
+    console.log(`${channel.logPrefix}rejected ${label} from ${replyTo.user}: cooling down for ${remainingMs}ms`);
+    responder?.reply("macroCooldown", replyTo, {
+      macro: call.name,
+      seconds: `${Math.ceil(remainingMs / 1000)}`,
     });
+    return [];
+  }
 
-    socket.once("close", (hadError) => {
-      if (settled) {
-        return;
-      }
-      settled = true;
-      if (hadError) {
-        reject(
-          new Error(
-            `Socket closed with error while sending to ${MGBA_HOST}:${MGBA_PORT}`,
-          ),
-        );
+  const inputs = expandMacro(macro, call.runs, channel.supportedButtons);
+  const runId = `${now}-${Math.random().toString(16).slice(2, 9)}`;
+  const pending = channel.commandQueue.filter((item) => item.status === "queued").length;
+  if (pending + inputs.length > config.queue.maxPending) {
+    const item = buildQueueItem(label, did);
+    item.status = "rejected";
+    item.rejectionReason = "queue_full";
+    item.macro = { name: call.name, runId, index: 0, total: inputs.length };
+    channel.commandQueue.push(item);
+    commandsRejectedTotal.inc({ channel: channel.name, reason: "queue_full" });
+    console.log(`${channel.logPrefix}rejected ${label} from ${replyTo.user}: queue_full`);
+    responder?.reply("queueFull", replyTo, { command: label, limit: `${config.queue.maxPending}` });
+    trimQueue(channel);
+    broadcast(channel);
+    return [];
+  }
+
+  let violation: PolicyViolation | null = null;
+  let allowed = 0;
+  for (const input of inputs) {
+    violation = policyViolation(channel, input, did, now);
+    if (violation) {
+      break;
+    }
+    channel.commandPolicy.record(input, now);
+    allowed += 1;
+  }
+  if (violation) {
+    responder?.reply("policy", replyTo, { command: inputs[allowed]!.normalized, reason: violation.reason });
+  }
+  if (allowed === 0) {
+    const reason = `policy_${violation!.outcome}` as const;
+    const item = buildQueueItem(label, did);
+    item.status = "rejected";
+    item.rejectionReason = reason;
+    item.macro = { name: call.name, runId, index: 0, total: inputs.length };
+    channel.commandQueue.push(item);
+    commandsRejectedTotal.inc({ channel: channel.name, reason });
+    console.log(`${channel.logPrefix}rejected ${label} from ${replyTo.user}: ${violation!.reason}`);
+    trimQueue(channel);
+    broadcast(channel);
+    return [];
+  }
+
+  channel.macroCooldowns.record(call.name, did, now);
+  channel.macroCooldowns.prune(
+    now,
+    Math.max(...Object.values(config.macros).map((entry) => entry.userCooldownMs)),
+  );
+  const queued = inputs.slice(0, allowed);
+  for (const [index, input] of queued.entries()) {
+    const item = buildQueueItem(input.normalized, did);
+    item.messageKey = messageKey;
+    item.macro = { name: call.name, runId, index, total: allowed };
+    channel.commandQueue.push(item);
+  }
+  const stopped = violation ? `, stopped at "${inputs[allowed]!.normalized}": ${violation.reason}` : "";
+  console.log(`${channel.logPrefix}accepted ${label} (${allowed} inputs${stopped}) from ${replyTo.user}`);
+  trimQueue(channel);
+  broadcast(channel);
+  void processQueue(channel);
+  return queued;
+}
+
+function clearDemocracyWindow(channel: Channel): void {
+  if (channel.democracyWindowTimer) {
+    clearTimeout(channel.democracyWindowTimer);
+    channel.democracyWindowTimer = null;
+  }
+  channel.democracyWindowEndsAt = null;
+  channel.democracyVotes.clear();
+}
+
+function closeDemocracyWindow(channel: Channel): void {
+  const [winner] = tallyDemocracyVotes(channel);
+  channel.democracyWindowTimer = null;
+  channel.democracyWindowEndsAt = null;
+  channel.democracyVotes.clear();
+
+  if (!winner || channel.inputMode !== "democracy") {
+    broadcast(channel);
+    return;
+  }
+
+  console.log(
+    `${channel.logPrefix}democracy picked "${commandLabel(winner.command)}" with ${winner.votes} vote(s)`,
+  );
+  enqueueCommand(channel, winner.command, winner.firstDid, {
+    votes: winner.votes,
+    bypassUserLimit: true,
+  });
+}
+
+function castDemocracyVote(channel: Channel, command: ParsedCommand, did: string, now: number): void {
+  noteCommandActivity(channel, now);
+  channel.democracyVotes.set(did, { command, createdAt: now });
+  if (channel.democracyWindowEndsAt === null) {
+    channel.democracyWindowEndsAt = now + config.inputMode.democracyWindowMs;
+    channel.democracyWindowTimer = setTimeout(
+      () => closeDemocracyWindow(channel),
+      config.inputMode.democracyWindowMs,
+    );
+  }
+  broadcast(channel);
+}
+
+function setInputMode(channel: Channel, mode: InputMode, reason: string): void {
+  if (channel.inputMode === mode) {
+    return;
+  }
+
+  channel.inputMode = mode;
+  clearDemocracyWindow(channel);
+  console.log(`${channel.logPrefix}Input mode switched to ${mode} (${reason})`);
+  broadcast(channel);
+}
+
+/** Counts as activity, so a channel where chat is only voting on the mode stays awake. */
+function recordModeVote(channel: Channel, did: string, mode: InputMode, now: number): void {
+  noteCommandActivity(channel, now);
+  channel.modeVotes.set(did, { mode, createdAt: now });
+  const counts = countModeVotesInWindow(channel, now);
+  const total = counts.anarchy + counts.democracy;
+  if (total >= config.inputMode.minVotesForSwitch) {
+    if (counts.democracy / total >= config.inputMode.switchRatio) {
+      setInputMode(channel, "democracy", "chat vote");
+    } else if (counts.anarchy / total >= config.inputMode.switchRatio) {
+      setInputMode(channel, "anarchy", "chat vote");
+    }
+  }
+  broadcast(channel);
+}
+
+/** Serializes bridge work so savestates never interleave with a dispatch. */
+function runExclusive<T>(channel: Channel, task: () => Promise<T>): Promise<T> {
+  const run = channel.dispatchLock.then(task);
+  channel.dispatchLock = run.then(
+    () => undefined,
+    () => undefined,
+  );
+  return run;
+}
+
+async function runSavestateOperation(
+  channel: Channel,
+  operation: SavestateOperation,
+  slot: number,
+): Promise<boolean> {
+  return runExclusive(channel, async () => {
+    channel.savestateOperation = operation;
+    broadcast(channel);
+    try {
+      if (config.emulator.dryRun) {
+        console.log(`${channel.logPrefix}[DRY_RUN] ${operation === "saving" ? "save" : "load"} slot ${slot}`);
+      } else if (!supportsSavestates(channel.bridge)) {
+        throw new Error(`The ${channel.bridge.name} backend does not support savestates`);
+      } else if (operation === "saving") {
+        await channel.bridge.saveState(slot);
       } else {
-        resolve();
+        await channel.bridge.loadState(slot);
+        // Don't report milestones for the jump back in time.
+        channel.gameState = null;
       }
-    });
+      channel.lastSavestateError = null;
+      return true;
+    } catch (error) {
+      channel.lastSavestateError = error instanceof Error ? error.message : String(error);
+      console.error(`${channel.logPrefix}Failed ${operation} savestate slot ${slot}:`, error);
+      return false;
+    } finally {
+      channel.savestateOperation = null;
+      broadcast(channel);
+    }
   });
 }
 
-function buildQueueItem(command: string, did: string): QueueItem {
-  const cachedIdentity = cachedIdentityForDid(did);
-  const user = cachedIdentity
-    ? queueLabelForIdentity(cachedIdentity, did)
-    : shortenDid(did);
-  return {
-    id: `${Date.now()}-${Math.random().toString(16).slice(2, 9)}`,
+async function refreshLastAutosave(channel: Channel): Promise<void> {
+  if (!supportsSavestates(channel.bridge)) {
+    return;
+  }
+  try {
+    const slots = await channel.bridge.listStates();
+    const newest = slots
+      .filter((entry) => config.autosave.slots.includes(entry.slot))
+      .sort((a, b) => b.savedAt - a.savedAt)[0];
+    if (newest && (!channel.lastAutosave || newest.savedAt > channel.lastAutosave.at)) {
+      channel.lastAutosave = { slot: newest.slot, at: newest.savedAt };
+      broadcast(channel);
+    }
+  } catch (error) {
+    console.error(`${channel.logPrefix}Failed to list savestate slots:`, error);
+  }
+}
+
+async function pickAutosaveSlot(channel: Channel): Promise<number | undefined> {
+  if (config.emulator.dryRun) {
+    const slot = config.autosave.slots[channel.nextDryRunAutosaveIndex % config.autosave.slots.length];
+    channel.nextDryRunAutosaveIndex += 1;
+    return slot;
+  }
+
+  if (!supportsSavestates(channel.bridge)) {
+    return undefined;
+  }
+
+  // Overwrite an empty slot first, otherwise the oldest autosave.
+  const savedAt = new Map(
+    (await channel.bridge.listStates()).map((entry) => [entry.slot, entry.savedAt]),
+  );
+  return [...config.autosave.slots].sort(
+    (a, b) => (savedAt.get(a) ?? 0) - (savedAt.get(b) ?? 0),
+  )[0];
+}
+
+async function autosave(channel: Channel): Promise<void> {
+  if (!config.emulator.dryRun && !channel.bridge.connected) {
+    console.log(`${channel.logPrefix}Skipping autosave: emulator is not connected`);
+    return;
+  }
+
+  let slot: number | undefined;
+  try {
+    slot = await pickAutosaveSlot(channel);
+  } catch (error) {
+    console.error(`${channel.logPrefix}Failed to pick autosave slot:`, error);
+    return;
+  }
+  if (slot === undefined) {
+    return;
+  }
+
+  if (await runSavestateOperation(channel, "saving", slot)) {
+    channel.lastAutosave = { slot, at: Date.now() };
+    console.log(`${channel.logPrefix}Autosaved to slot ${slot}`);
+    broadcast(channel);
+  }
+}
+
+function gameStateKey(state: GameState | null): string {
+  if (!state) {
+    return "";
+  }
+  const { polledAt: _polledAt, ...rest } = state;
+  return JSON.stringify(rest);
+}
+
+async function pollGameState(channel: Channel): Promise<void> {
+  if (
+    config.emulator.dryRun ||
+    channel.pollingGameState ||
+    channel.savestateOperation ||
+    !channel.bridge.connected ||
+    !supportsMemoryReads(channel.bridge)
+  ) {
+    return;
+  }
+
+  channel.pollingGameState = true;
+  try {
+    channel.detectedGame ??= config.gameState.gameVersion ?? (await detectGameVersion(channel.bridge));
+    if (!channel.detectedGame) {
+      if (!channel.warnedUnsupportedGame) {
+        channel.warnedUnsupportedGame = true;
+        console.error(`${channel.logPrefix}Game state polling: ROM is not FireRed, LeafGreen or Emerald`);
+      }
+      return;
+    }
+
+    const next = await readGameState(channel.bridge, channel.detectedGame);
+    const newMilestones = diffGameStates(channel.gameState, next);
+    const changed = gameStateKey(channel.gameState) !== gameStateKey(next);
+    channel.gameState = next;
+
+    for (const milestone of newMilestones) {
+      console.log(`${channel.logPrefix}Milestone: ${milestone.message}`);
+      channel.milestones.push(milestone);
+      responder?.announce("milestone", channel.streamerDid, { milestone: milestone.message });
+    }
+    if (channel.milestones.length > MAX_MILESTONES) {
+      channel.milestones.splice(0, channel.milestones.length - MAX_MILESTONES);
+    }
+
+    if (changed || newMilestones.length > 0) {
+      broadcast(channel);
+    }
+  } catch (error) {
+    if (!(error instanceof BridgeDisconnectedError)) {
+      console.error(`${channel.logPrefix}Failed to poll game state:`, error);
+    }
+  } finally {
+    channel.pollingGameState = false;
+  }
+}
+
+function rollbackToSlot(channel: Channel, slotRaw: string | undefined): void {
+  const slot = slotRaw === undefined ? channel.lastAutosave?.slot : Number.parseInt(slotRaw, 10);
+  if (slot === undefined || !Number.isInteger(slot) || slot < 1) {
+    console.error(`${channel.logPrefix}Ignoring rollback: no valid slot in "${slotRaw ?? ""}"`);
+    return;
+  }
+
+  console.log(`${channel.logPrefix}Rolling back to savestate slot ${slot}`);
+  void runSavestateOperation(channel, "loading", slot);
+}
+
+/** The channel's streamer or one of `MODERATOR_DIDS`, who moderate every channel. */
+function isModerator(channel: Channel, did: string): boolean {
+  return did === channel.streamerDid || config.moderatorDids.includes(did);
+}
+
+async function loadBans(): Promise<void> {
+  const file = Bun.file(config.bansFile);
+  if (!(await file.exists())) {
+    return;
+  }
+
+  try {
+    const payload = (await file.json()) as unknown;
+    const entries = isObject(payload) && Array.isArray(payload.bans) ? payload.bans : [];
+    for (const entry of entries) {
+      if (isObject(entry) && typeof entry.did === "string") {
+        bannedDids.set(entry.did, {
+          did: entry.did,
+          label: typeof entry.label === "string" ? entry.label : entry.did,
+          bannedBy: typeof entry.bannedBy === "string" ? entry.bannedBy : "",
+          bannedAt: typeof entry.bannedAt === "number" ? entry.bannedAt : 0,
+        });
+      }
+    }
+    console.log(`Loaded ${bannedDids.size} ban(s) from ${config.bansFile}`);
+  } catch (error) {
+    console.error(`Failed to read bans from ${config.bansFile}:`, error);
+  }
+}
+
+/** One id per line; `#` starts a comment. */
+async function loadBlocklist(): Promise<void> {
+  if (config.blocklistFile.length === 0) {
+    return;
+  }
+  const file = Bun.file(config.blocklistFile);
+  if (!(await file.exists())) {
+    return;
+  }
+
+  try {
+    for (const line of (await file.text()).split("\n")) {
+      const did = line.replace(/#.*$/, "").trim();
+      if (did.length > 0) {
+        localBlockedDids.add(did);
+      }
+    }
+    console.log(`Loaded ${localBlockedDids.size} blocked id(s) from ${config.blocklistFile}`);
+  } catch (error) {
+    console.error(`Failed to read blocklist from ${config.blocklistFile}:`, error);
+  }
+}
+
+function isBlocked(channel: Channel, did: string): boolean {
+  return channel.platformBlockedDids.has(did) || localBlockedDids.has(did);
+}
+
+/** Mirrors a platform block: the user's messages leave the overlay and their inputs the queue. */
+function applyPlatformBlock(channel: Channel, event: ChatBlockEvent): void {
+  if (!event.blocked) {
+    if (channel.platformBlockedDids.delete(event.did)) {
+      console.log(`${channel.logPrefix}${event.source}: streamer unblocked ${event.did}`);
+    }
+    return;
+  }
+  if (channel.platformBlockedDids.has(event.did)) {
+    return;
+  }
+
+  channel.platformBlockedDids.add(event.did);
+  channel.democracyVotes.delete(event.did);
+  for (const messages of [channel.chatMessages, channel.commandChatMessages]) {
+    for (let i = messages.length - 1; i >= 0; i -= 1) {
+      if (messages[i]?.did === event.did) {
+        messages.splice(i, 1);
+      }
+    }
+  }
+  const removed = removeQueuedInputs(channel, (item) => item.did === event.did);
+  console.log(`${channel.logPrefix}${event.source}: streamer blocked ${event.did}, removed ${removed} queued input(s)`);
+  broadcast(channel);
+}
+
+async function saveBans(): Promise<void> {
+  try {
+    await Bun.write(
+      config.bansFile,
+      `${JSON.stringify({ bans: [...bannedDids.values()] }, null, 2)}\n`,
+    );
+  } catch (error) {
+    console.error(`Failed to write bans to ${config.bansFile}:`, error);
+  }
+}
+
+async function resolveBanTarget(target: string): Promise<string | null> {
+  // DIDs and `twitch:`/`local:` chat ids are used as-is; handles never contain ':'.
+  if (target.includes(":")) {
+    return target;
+  }
+
+  const handle = target.replace(/^@/, "").toLowerCase();
+  try {
+    return await identityResolver.resolveHandle(handle);
+  } catch (error) {
+    console.error(`Failed to resolve handle ${handle}:`, error);
+    return null;
+  }
+}
+
+function removeQueuedInputs(channel: Channel, predicate: (item: QueueItem) => boolean): number {
+  const before = channel.commandQueue.length;
+  for (let i = channel.commandQueue.length - 1; i >= 0; i -= 1) {
+    const item = channel.commandQueue[i];
+    if (item && item.status === "queued" && predicate(item)) {
+      channel.commandQueue.splice(i, 1);
+    }
+  }
+  return before - channel.commandQueue.length;
+}
+
+function chatMessageKey(source: string, messageId: string): string {
+  return `${source}:${messageId}`;
+}
+
+/** Drops a deleted message from the overlay, along with its still-queued inputs and repeats. */
+function retractChatMessage(channel: Channel, event: ChatDeleteEvent): void {
+  const key = chatMessageKey(event.source, event.messageId);
+  channel.retractedMessageKeys.add(key);
+  if (channel.retractedMessageKeys.size > MAX_RETRACTED_MESSAGE_KEYS) {
+    const oldest = channel.retractedMessageKeys.values().next().value;
+    if (oldest !== undefined) {
+      channel.retractedMessageKeys.delete(oldest);
+    }
+  }
+
+  for (const messages of [channel.chatMessages, channel.commandChatMessages]) {
+    const index = messages.findIndex(
+      (message) => message.source === event.source && message.messageId === event.messageId,
+    );
+    if (index !== -1) {
+      messages.splice(index, 1);
+    }
+  }
+
+  const removed = removeQueuedInputs(channel, (item) => item.messageKey === key);
+  if (removed > 0) {
+    console.log(`${channel.logPrefix}deleted message from ${shortenDid(event.did)} removed ${removed} queued input(s)`);
+  }
+  broadcast(channel);
+}
+
+/** Edits only update the overlay; the original text is what got queued. */
+function editChatMessage(channel: Channel, event: ChatEditEvent): void {
+  let changed = false;
+  for (const messages of [channel.chatMessages, channel.commandChatMessages]) {
+    for (const message of messages) {
+      if (message.source === event.source && message.messageId === event.messageId) {
+        message.text = event.text;
+        changed = true;
+      }
+    }
+  }
+  if (changed) {
+    broadcast(channel);
+  }
+}
+
+/** Bans are shared, so a ban in one channel clears the user's inputs from all of them. */
+async function banUser(target: string, moderatorDid: string): Promise<void> {
+  const did = await resolveBanTarget(target);
+  if (!did) {
+    console.error(`Ignoring !ban: could not resolve "${target}"`);
+    return;
+  }
+  if (channels.some((channel) => isModerator(channel, did))) {
+    console.error(`Ignoring !ban: ${did} is a moderator`);
+    return;
+  }
+
+  const identity = cachedIdentityForDid(did);
+  bannedDids.set(did, {
     did,
-    user,
-    handle: cachedIdentity?.handle,
-    avatarUrl: cachedIdentity?.avatarUrl,
-    command,
-    status: "queued",
-    createdAt: Date.now(),
+    label: identity ? queueLabelForIdentity(identity, did) : target,
+    bannedBy: moderatorDid,
+    bannedAt: Date.now(),
+  });
+  let removed = 0;
+  for (const channel of channels) {
+    channel.democracyVotes.delete(did);
+    removed += removeQueuedInputs(channel, (item) => item.did === did);
+    broadcast(channel);
+  }
+  console.log(`Banned ${did} (${target}), removed ${removed} queued input(s)`);
+  await saveBans();
+}
+
+async function unbanUser(target: string): Promise<void> {
+  const did = await resolveBanTarget(target);
+  if (!did || !bannedDids.delete(did)) {
+    console.error(`Ignoring !unban: "${target}" is not banned`);
+    return;
+  }
+
+  console.log(`Unbanned ${did} (${target})`);
+  await saveBans();
+}
+
+function pauseDispatch(channel: Channel): void {
+  channel.dispatchPaused = true;
+  console.log(`${channel.logPrefix}Input dispatch paused`);
+  broadcast(channel);
+}
+
+function resumeDispatch(channel: Channel): void {
+  channel.dispatchPaused = false;
+  const waiters = channel.resumeWaiters;
+  channel.resumeWaiters = [];
+  for (const resolve of waiters) {
+    resolve();
+  }
+  console.log(`${channel.logPrefix}Input dispatch resumed`);
+  broadcast(channel);
+  void processQueue(channel);
+}
+
+function waitForResume(channel: Channel): Promise<void> {
+  return new Promise((resolve) => {
+    channel.resumeWaiters.push(resolve);
+  });
+}
+
+function clearQueue(channel: Channel): number {
+  channel.queueGeneration += 1;
+  const removed = removeQueuedInputs(channel, () => true);
+  clearDemocracyWindow(channel);
+  console.log(`${channel.logPrefix}Cleared ${removed} queued input(s)`);
+  broadcast(channel);
+  return removed;
+}
+
+function removeQueueItem(channel: Channel, id: string): RemoveQueueItemResult {
+  const item = channel.commandQueue.find((entry) => entry.id === id);
+  if (!item) {
+    return "not_found";
+  }
+  if (item.status !== "queued") {
+    return "not_queued";
+  }
+  removeQueuedInputs(channel, (entry) => entry === item);
+  console.log(`${channel.logPrefix}Removed queued "${item.command}" from ${item.user}`);
+  broadcast(channel);
+  return "removed";
+}
+
+function setSpamOverride(channel: Channel, value: string | undefined): void {
+  if (value === "on" || value === "off") {
+    channel.spamOverride = value === "on";
+  } else if (value === "auto") {
+    channel.spamOverride = null;
+  } else {
+    console.error(`Ignoring !spam: expected on, off or auto, got "${value ?? ""}"`);
+    return;
+  }
+
+  console.log(`${channel.logPrefix}Spam ability override: ${channel.spamOverride === null ? "auto" : value}`);
+  broadcast(channel);
+}
+
+/** Runs a command as if the streamer had typed it in chat, `xN` repeats included. */
+function injectStreamerCommand(channel: Channel, text: string): InjectResult {
+  const parsedCommand = parseCommand(text, {
+    allowCommandSpam: true,
+    supportedButtons: channel.supportedButtons,
+  });
+  if (!parsedCommand) {
+    return { accepted: false, reason: `"${text}" is not a valid command` };
+  }
+
+  if (channel.inputMode === "democracy") {
+    console.log(`${channel.logPrefix}vote "${commandLabel(parsedCommand)}" from streamer (admin API)`);
+    castDemocracyVote(channel, parsedCommand, channel.streamerDid, Date.now());
+  } else {
+    console.log(`${channel.logPrefix}accepted "${parsedCommand.normalized}" from streamer (admin API)`);
+    enqueueCommand(channel, parsedCommand, channel.streamerDid);
+  }
+  return {
+    accepted: true,
+    normalized: parsedCommand.normalized,
+    repeatCount: parsedCommand.repeatCount,
+    mode: channel.inputMode,
   };
 }
 
-function enqueueSingleCommand(command: string, did: string): void {
-  commandQueue.push(buildQueueItem(command, did));
-  trimQueue();
-  broadcast();
-  void processQueue();
+/** Settings in effect after the config file and env overrides, minus secrets. */
+function effectiveConfig(channel: Channel): Record<string, unknown> {
+  return {
+    ...redactConfig(config),
+    configFile: CONFIG_FILE,
+    channel: channel.name,
+    emulatorTarget: channel.emulatorTarget,
+    supportedButtons: [...channel.supportedButtons],
+    currentInputMode: channel.inputMode,
+  };
 }
 
-function enqueueCommand(command: ParsedCommand, did: string): void {
-  enqueueSingleCommand(command.normalized, did);
+/**
+ * Handles `!`-prefixed commands from the streamer and `MODERATOR_DIDS`.
+ * Returns true when the message was a recognized moderator command.
+ */
+function handleModeratorCommand(channel: Channel, did: string, text: string): boolean {
+  if (!isModerator(channel, did)) {
+    return false;
+  }
 
-  if (command.repeatCount <= 1) {
+  const [nameRaw, arg, value] = text.trim().split(/\s+/);
+  const name = nameRaw?.toLowerCase();
+  const isStreamer = did === channel.streamerDid;
+
+  switch (name) {
+    case "!pause":
+      pauseDispatch(channel);
+      return true;
+    case "!resume":
+      resumeDispatch(channel);
+      return true;
+    case "!clear":
+      clearQueue(channel);
+      return true;
+    case "!ban":
+    case "!unban":
+      if (!arg) {
+        console.error(`Ignoring ${name}: missing handle or DID`);
+        return true;
+      }
+      void (name === "!ban" ? banUser(arg, did) : unbanUser(arg));
+      return true;
+    case "!spam":
+      setSpamOverride(channel, arg?.toLowerCase());
+      return true;
+    case "!anarchy":
+    case "!democracy":
+      if (!isStreamer) {
+        return false;
+      }
+      setInputMode(channel, name === "!anarchy" ? "anarchy" : "democracy", "streamer");
+      return true;
+    case "!rollback":
+      if (!isStreamer) {
+        return false;
+      }
+      rollbackToSlot(channel, arg);
+      return true;
+    case "!macro": {
+      if (!isStreamer) {
+        return false;
+      }
+      const toggle = value?.toLowerCase();
+      const macroName = arg?.toLowerCase().replace(/^!/, "");
+      if (!macroName || (toggle !== "on" && toggle !== "off")) {
+        console.error("Ignoring !macro: expected !macro <name> on|off");
+      } else if (!setMacroEnabled(channel, macroName, toggle === "on")) {
+        console.error(`Ignoring !macro: no macro named "${macroName}"`);
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/** Records an accepted command, vote or mode vote; the first one after a quiet stretch wakes the channel. */
+function noteCommandActivity(channel: Channel, now: number): void {
+  channel.lastCommandAt = now;
+  if (channel.idleMode === null) {
     return;
   }
+  console.log(`${channel.logPrefix}Chat is back, leaving idle (${channel.idleMode})`);
+  channel.idleMode = null;
+  syncEmulatorPause(channel);
+  broadcast(channel);
+}
 
-  void (async () => {
-    for (let i = 1; i < command.repeatCount; i += 1) {
-      await sleep(SPAM_REPEAT_DELAY_MS);
-      enqueueSingleCommand(command.normalized, did);
+/** Goes idle once chat has sent no accepted command or vote for `idle.afterMs` and nothing is left to play. */
+function checkIdle(channel: Channel, now: number): void {
+  if (
+    config.idle.afterMs === 0 ||
+    channel.idleMode !== null ||
+    now - channel.lastCommandAt < config.idle.afterMs ||
+    channel.democracyWindowEndsAt !== null ||
+    channel.commandQueue.some((item) => item.status === "queued" || item.status === "active")
+  ) {
+    return;
+  }
+
+  channel.idleMode = config.idle.attract.length > 0 ? "attract" : "paused";
+  const seconds = Math.round((now - channel.lastCommandAt) / 1000);
+  if (channel.idleMode === "attract") {
+    console.log(`${channel.logPrefix}No commands for ${seconds}s, starting the attract loop`);
+    void runAttractLoop(channel);
+  } else if (config.emulator.dryRun || supportsPausing(channel.bridge)) {
+    console.log(`${channel.logPrefix}No commands for ${seconds}s, pausing the emulator`);
+    syncEmulatorPause(channel);
+  } else {
+    console.log(`${channel.logPrefix}No commands for ${seconds}s; the ${channel.bridge.name} backend can't pause`);
+  }
+  broadcast(channel);
+}
+
+/** Pauses or resumes emulation to match the channel's idle mode, behind any input in flight. */
+function syncEmulatorPause(channel: Channel): void {
+  const paused = channel.idleMode === "paused";
+  runExclusive(channel, () => setEmulatorPaused(channel, paused)).catch((error) => {
+    console.error(
+      `${channel.logPrefix}Failed to ${paused ? "pause" : "resume"} the emulator:`,
+      error instanceof Error ? error.message : error,
+    );
+  });
+}
+
+/** Only call inside `runExclusive`. A backend that can't pause is left running. */
+async function setEmulatorPaused(channel: Channel, paused: boolean): Promise<void> {
+  if (channel.emulatorPaused === paused) {
+    return;
+  }
+  if (config.emulator.dryRun) {
+    console.log(`${channel.logPrefix}[DRY_RUN] ${paused ? "pause" : "resume"} emulation`);
+  } else if (supportsPausing(channel.bridge)) {
+    await channel.bridge.setPaused(paused);
+  } else {
+    return;
+  }
+  channel.emulatorPaused = paused;
+}
+
+/**
+ * Plays the `idle.attract` steps over and over until chat is back. Attract
+ * inputs skip the queue and don't count as activity, so they never keep a
+ * channel awake, but the command policy still applies: a step it turns away
+ * is skipped. They aren't recorded against cooldowns, so the bot never makes
+ * chat wait.
+ */
+async function runAttractLoop(channel: Channel): Promise<void> {
+  if (channel.attractRunning) {
+    return;
+  }
+  channel.attractRunning = true;
+  try {
+    while (channel.idleMode === "attract") {
+      const inputs = expandAttract(config.idle.attract, channel.supportedButtons);
+      if (inputs.length === 0 || channel.dispatchPaused) {
+        await sleep(IDLE_CHECK_INTERVAL_MS);
+        continue;
+      }
+      let dispatched = 0;
+      for (const command of inputs) {
+        if (channel.idleMode !== "attract" || channel.dispatchPaused) {
+          break;
+        }
+        if (!config.emulator.dryRun && !channel.bridge.connected) {
+          await channel.bridge.waitUntilConnected();
+          break;
+        }
+        if (policyViolation(channel, command, ATTRACT_DID, Date.now())) {
+          continue;
+        }
+        await dispatchAttractInput(channel, command);
+        await sleep(config.commands.queueCommandDelayMs);
+        dispatched += 1;
+      }
+      // Every step waiting out a cooldown or lock.
+      if (dispatched === 0 && channel.idleMode === "attract") {
+        await sleep(IDLE_CHECK_INTERVAL_MS);
+      }
     }
-  })();
+  } finally {
+    channel.attractRunning = false;
+  }
 }
 
-async function processQueue(): Promise<void> {
-  if (processingQueue) {
+async function dispatchAttractInput(channel: Channel, command: ParsedCommand): Promise<void> {
+  let startedAt = Date.now();
+  let frame: number | null = null;
+  let outcome: InputOutcome = "done";
+  let failure: string | undefined;
+  try {
+    frame = await runExclusive(channel, () => {
+      // Nobody to credit on the controller graphic.
+      channel.lastActiveItem = null;
+      startedAt = Date.now();
+      return executeCommand(command, (buttons, durationMs) => dispatchButtons(channel, buttons, durationMs), {
+        waitForHolds: !config.emulator.dryRun,
+      });
+    });
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+    outcome = error instanceof BridgeDisconnectedError ? "retry" : "error";
+    if (outcome === "error") {
+      console.error(`${channel.logPrefix}Failed to dispatch attract input "${command.normalized}":`, error);
+    }
+  }
+
+  // Logged so a replay ends up in the same place.
+  void inputLog?.append({
+    timestamp: new Date(startedAt).toISOString(),
+    channel: channel === mainChannel ? undefined : channel.name,
+    did: ATTRACT_DID,
+    command: command.normalized,
+    durationMs: command.totalDurationMs,
+    outcome,
+    frame,
+    error: failure,
+  });
+}
+
+async function processQueue(channel: Channel): Promise<void> {
+  if (channel.processingQueue) {
     return;
   }
 
-  processingQueue = true;
+  channel.processingQueue = true;
   try {
     while (true) {
-      const next = commandQueue.find((item) => item.status === "queued");
+      const next = nextQueuedItem(channel);
       if (!next) {
-        activeCommandId = null;
-        broadcast();
+        channel.activeCommandId = null;
+        broadcast(channel);
         return;
       }
 
-      const parsedCommand = parseCommand(next.command);
+      const parsedCommand = parseCommand(next.command, { supportedButtons: channel.supportedButtons });
       if (!parsedCommand) {
         next.status = "error";
-        broadcast();
+        broadcast(channel);
+        continue;
+      }
+
+      if (channel.dispatchPaused) {
+        await waitForResume(channel);
         continue;
       }
 
-      next.status = "active";
-      activeCommandId = next.id;
-      broadcast();
+      if (!config.emulator.dryRun && !channel.bridge.connected) {
+        await channel.bridge.waitUntilConnected();
+        continue;
+      }
 
+      let startedAt = Date.now();
+      let frame: number | null = null;
+      let outcome: InputOutcome;
+      let failure: string | undefined;
       try {
-        await dispatchMgbaCommand(parsedCommand.buttons, parsedCommand.durationMs);
+        frame = await runExclusive(channel, async () => {
+          if (channel.emulatorPaused === true) {
+            await setEmulatorPaused(channel, false);
+          }
+          next.status = "active";
+          channel.activeCommandId = next.id;
+          channel.lastActiveItem = next;
+          channel.lastServedTurn.set(next.did, channel.dispatchTurn);
+          channel.dispatchTurn += 1;
+          startedAt = Date.now();
+          broadcast(channel);
+          return executeCommand(parsedCommand, (buttons, durationMs) => dispatchButtons(channel, buttons, durationMs), {
+            waitForHolds: !config.emulator.dryRun,
+          });
+        });
         next.status = "done";
+        outcome = "done";
       } catch (error) {
-        next.status = "error";
-        console.error(`Failed to dispatch command "${next.command}":`, error);
+        failure = error instanceof Error ? error.message : String(error);
+        if (error instanceof BridgeDisconnectedError) {
+          // Not acknowledged before the socket dropped; retry once reconnected.
+          next.status = "queued";
+          outcome = "retry";
+        } else {
+          next.status = "error";
+          outcome = "error";
+          console.error(`${channel.logPrefix}Failed to dispatch command "${next.command}":`, error);
+        }
       }
 
-      activeCommandId = null;
-      broadcast();
-      await sleep(QUEUE_COMMAND_DELAY_MS);
+      dispatchesTotal.inc({ channel: channel.name, outcome });
+      if (outcome !== "retry") {
+        dispatchLatency.observe((startedAt - next.createdAt) / 1000, { channel: channel.name });
+      }
+      void inputLog?.append({
+        timestamp: new Date(startedAt).toISOString(),
+        channel: channel === mainChannel ? undefined : channel.name,
+        did: next.did,
+        command: next.command,
+        durationMs: parsedCommand.totalDurationMs,
+        outcome,
+        frame,
+        votes: next.votes,
+        error: failure,
+      });
+
+      channel.activeCommandId = null;
+      broadcast(channel);
+      await sleep(config.commands.queueCommandDelayMs);
     }
   } finally {
-    processingQueue = false;
+    channel.processingQueue = false;
   }
 }
 
-function htmlPage(): Response {
-  return new Response(Bun.file("overlay.html"), {
+/** `overlay.html` laid out for one route, e.g. `/overlay/chat?layout=sidebar&theme=night`. */
+async function overlayPage(panel: OverlayPanel | null, query: URLSearchParams): Promise<Response> {
+  const result = await resolveOverlayLayout(panel, query, config.overlay.layouts, config.overlay.themesDir);
+  if (!result.ok) {
+    return new Response(result.message, { status: result.status });
+  }
+  const html = await Bun.file("overlay.html").text();
+  return new Response(renderOverlayPage(html, result.layout), {
     headers: {
       "Content-Type": "text/html; charset=utf-8",
       "Cache-Control": "no-store",
@@ -711,15 +2274,15 @@ function htmlPage(): Response {
   });
 }
 
-function sseStream(request: Request): Response {
+function sseStream(channel: Channel, request: Request): Response {
   const stream = new ReadableStream<string>({
     start(controller) {
-      overlayClients.add(controller);
+      channel.overlayClients.add(controller);
       controller.enqueue("retry: 1500\n\n");
-      sendToClient(controller, snapshot());
+      sendToClient(controller, snapshot(channel));
 
       request.signal.addEventListener("abort", () => {
-        overlayClients.delete(controller);
+        channel.overlayClients.delete(controller);
         try {
           controller.close();
         } catch {
@@ -739,84 +2302,403 @@ function sseStream(request: Request): Response {
   });
 }
 
-Bun.serve({
-  port: OVERLAY_PORT,
-  fetch(request: Request) {
+function statsJson(body: unknown, status = 200): Response {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store", "Access-Control-Allow-Origin": "*" },
+  });
+}
+
+/** Public, read-only; `?did=` returns one viewer. */
+function statsResponse(url: URL): Response {
+  if (!statsStore) {
+    return statsJson({ error: "Viewer stats are disabled; set STATS_DB" }, 404);
+  }
+
+  const did = url.searchParams.get("did");
+  if (did) {
+    const viewer = statsStore.viewer(did);
+    if (!viewer) {
+      return statsJson({ error: `No stats for ${did}` }, 404);
+    }
+    return statsJson({ viewer: withCachedIdentity(viewer) });
+  }
+
+  return statsJson({
+    totals: statsStore.totals(),
+    session: statsStore.currentSession(),
+    recentSessions: statsStore.recentSessions(RECENT_STATS_SESSIONS),
+  });
+}
+
+/** Public, read-only; `?period=all|session&limit=N`. */
+function leaderboardResponse(url: URL): Response {
+  if (!statsStore) {
+    return statsJson({ error: "Viewer stats are disabled; set STATS_DB" }, 404);
+  }
+
+  const period = url.searchParams.get("period") ?? "all";
+  if (period !== "all" && period !== "session") {
+    return statsJson({ error: `"period" must be "all" or "session"` }, 400);
+  }
+  const limit = Number.parseInt(url.searchParams.get("limit") ?? `${DEFAULT_LEADERBOARD_SIZE}`, 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return statsJson({ error: `"limit" must be a positive integer` }, 400);
+  }
+
+  const entries = statsStore
+    .leaderboard(period, Math.min(limit, MAX_LEADERBOARD_SIZE))
+    .map(withCachedIdentity);
+  return statsJson({ period, session: statsStore.currentSession(), entries });
+}
+
+/** One channel's admin API; the main channel's is also at the unprefixed `/api`. */
+function createChannelAdminApi(channel: Channel): (request: Request, pathname: string) => Promise<Response> {
+  return createAdminApi({
+    token: config.adminApiToken,
+    controller: {
+      queue: () => channel.commandQueue,
+      removeQueueItem: (id) => removeQueueItem(channel, id),
+      clearQueue: () => clearQueue(channel),
+      isPaused: () => channel.dispatchPaused,
+      pause: () => pauseDispatch(channel),
+      resume: () => resumeDispatch(channel),
+      spam: () => snapshot(channel).spamAbility,
+      setSpamMode: (mode) => setSpamOverride(channel, mode),
+      injectCommand: (command) => injectStreamerCommand(channel, command),
+      config: () => effectiveConfig(channel),
+      macros: () => listMacros(channel),
+      setMacroEnabled: (name, enabled) => setMacroEnabled(channel, name, enabled),
+    },
+  });
+}
+
+const adminApis = new Map(channels.map((channel) => [channel, createChannelAdminApi(channel)]));
+
+/**
+ * The channel a request is for and the path within it: `/c/<name>/overlay`
+ * is `/overlay` of channel `<name>`, and unprefixed paths belong to the main
+ * channel. Null for an unknown channel, including a name that isn't valid
+ * percent-encoding.
+ */
+function channelRoute(pathname: string): { channel: Channel; path: string } | null {
+  const match = /^\/c\/([^/]+)(\/.*)$/.exec(pathname);
+  if (!match?.[1] || !match[2]) {
+    return { channel: mainChannel, path: pathname };
+  }
+  let name: string;
+  try {
+    name = decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+  const channel = channelsByName.get(name);
+  return channel ? { channel, path: match[2] } : null;
+}
+
+Bun.serve<OverlaySocketData, never>({
+  port: config.overlay.port,
+  fetch(request, server) {
     const url = new URL(request.url);
+    const route = channelRoute(url.pathname);
+    if (!route) {
+      return new Response("Unknown channel", { status: 404 });
+    }
+    const { channel, path } = route;
+
+    const overlayPanel = overlayPanelForPath(path);
+    if (overlayPanel !== undefined) {
+      return overlayPage(overlayPanel, url.searchParams);
+    }
 
-    if (url.pathname === "/overlay" || url.pathname === "/") {
-      return htmlPage();
+    if (path.startsWith("/overlay/themes/")) {
+      return themeStylesheet(path, config.overlay.themesDir).then(
+        (response) => response ?? new Response("Not found", { status: 404 }),
+      );
+    }
+
+    if (path === "/events") {
+      return sseStream(channel, request);
+    }
+
+    if (path === "/ws") {
+      if (server.upgrade(request, { data: { channel } })) {
+        return undefined;
+      }
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+
+    if (path === "/metrics") {
+      return new Response(metrics.render(), {
+        headers: {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (path === "/healthz") {
+      const health = healthReport();
+      return Response.json(health, {
+        status: health.status === "ok" ? 200 : 503,
+        headers: { "Cache-Control": "no-store" },
+      });
+    }
+
+    if (path === "/api/stats") {
+      return statsResponse(url);
     }
 
-    if (url.pathname === "/events") {
-      return sseStream(request);
+    if (path === "/api/leaderboard") {
+      return leaderboardResponse(url);
+    }
+
+    const adminApi = adminApis.get(channel);
+    if (adminApi && (path === "/api" || path.startsWith("/api/"))) {
+      return adminApi(request, path);
     }
 
     return new Response("Not found", { status: 404 });
   },
+  websocket: {
+    open(socket) {
+      sendOverlaySnapshot(socket.data.channel, socket);
+      socket.data.channel.overlaySockets.add(socket);
+    },
+    message(socket, message) {
+      // The only client message: a request for a fresh snapshot after a sequence gap.
+      try {
+        const parsed = JSON.parse(String(message)) as unknown;
+        if (isObject(parsed) && parsed.type === "resync") {
+          sendOverlaySnapshot(socket.data.channel, socket);
+        }
+      } catch {
+        // ignore malformed client messages
+      }
+    },
+    close(socket) {
+      socket.data.channel.overlaySockets.delete(socket);
+    },
+  },
 });
 
 console.log("Starting Stream.Place Plays listener");
-console.log(`Jetstream URL: ${JETSTREAM_URL}`);
-console.log(`Streamer DID filter: ${STREAMER_DID}`);
-console.log(`mGBA bridge target: ${MGBA_HOST}:${MGBA_PORT}`);
-console.log(`Overlay URL: http://localhost:${OVERLAY_PORT}/overlay`);
-console.log(`Slingshot URL: ${SLINGSHOT_URL}`);
-console.log(`mGBA socket timeout: ${MGBA_SOCKET_TIMEOUT_MS}ms`);
-
-const subscription = new JetstreamSubscription({
-  url: JETSTREAM_URL,
-  wantedCollections: ["place.stream.chat.message"],
+console.log(`Chat sources: ${config.chat.sources.join(", ")}`);
+if (config.chat.sources.includes("jetstream")) {
+  console.log(`Jetstream URL: ${config.jetstream.url}`);
+}
+if (config.chat.sources.includes("twitch")) {
+  console.log(`Twitch channel: #${config.twitch.channel} via ${config.twitch.ircUrl}`);
+}
+for (const channel of channels) {
+  const base = channel === mainChannel ? "" : `/c/${channel.name}`;
+  console.log(`${channel.logPrefix}Streamer DID filter: ${channel.streamerDid}`);
+  console.log(`${channel.logPrefix}Emulator backend: ${channel.bridge.name} at ${channel.emulatorTarget}`);
+  console.log(`${channel.logPrefix}Buttons: ${[...channel.supportedButtons].join(", ")}`);
+  console.log(`${channel.logPrefix}Overlay URL: http://localhost:${config.overlay.port}${base}/overlay`);
+}
+console.log(
+  config.adminApiToken.length > 0
+    ? `Admin API: http://localhost:${config.overlay.port}/api`
+    : "Admin API disabled (set ADMIN_API_TOKEN)",
+);
+console.log(`Slingshot URL: ${config.slingshotUrl} (falling back to ${config.identity.plcUrl})`);
+console.log(
+  statsStore
+    ? `Viewer stats: ${config.stats.db} (session ${statsStore.sessionId})`
+    : "Viewer stats disabled (set STATS_DB)",
+);
+console.log(
+  responder
+    ? `Chat bot: ${config.bot.identifier} via ${config.bot.pdsUrl}`
+    : "Chat bot disabled (set BOT_IDENTIFIER)",
+);
+console.log(
+  `Input mode: ${config.inputMode.initial} (democracy window ${config.inputMode.democracyWindowMs}ms, chat mode voting ${config.inputMode.voting ? "on" : "off"})`,
+);
+
+watchConfig(CONFIG_FILE, () => config, applyConfigReload, (error) => {
+  console.error(
+    error instanceof ConfigError ? `Ignoring ${CONFIG_FILE} change. ${error.message}` : error,
+  );
 });
 
-for await (const event of subscription) {
-  if (event.kind !== "commit") {
-    continue;
+await loadBans();
+await loadBlocklist();
+const cachedIdentities = await identityResolver.load();
+if (cachedIdentities > 0) {
+  console.log(`Loaded ${cachedIdentities} cached identities from ${config.identity.cacheFile}`);
+}
+if (config.moderatorDids.length > 0) {
+  console.log(`Moderators: ${config.moderatorDids.join(", ")}`);
+}
+
+for (const channel of channels) {
+  if (!config.emulator.dryRun) {
+    channel.bridge.start();
+  }
+
+  if (!config.emulator.dryRun && config.gameState.pollMs > 0 && supportsMemoryReads(channel.bridge)) {
+    setInterval(() => {
+      void pollGameState(channel);
+    }, config.gameState.pollMs);
   }
 
-  const commit = event.commit;
-  if (commit.collection !== "place.stream.chat.message") {
+  if (!config.emulator.dryRun && AUTOSAVE_INTERVAL_MS > 0 && !supportsSavestates(channel.bridge)) {
+    console.log(`${channel.logPrefix}Autosave disabled: the ${channel.bridge.name} backend has no savestates`);
+  } else if (AUTOSAVE_INTERVAL_MS > 0 && config.autosave.slots.length > 0) {
+    console.log(
+      `${channel.logPrefix}Autosave every ${AUTOSAVE_INTERVAL_MS / (60 * 1000)} min into slots ${config.autosave.slots.join(", ")}`,
+    );
+    setInterval(() => {
+      void autosave(channel);
+    }, AUTOSAVE_INTERVAL_MS);
+  }
+}
+void responder?.start();
+
+setInterval(() => {
+  const now = Date.now();
+  for (const channel of channels) {
+    checkIdle(channel, now);
+  }
+}, IDLE_CHECK_INTERVAL_MS);
+
+for await (const event of mergeChatSources(chatSources)) {
+  chatEventsTotal.inc({ source: event.source, kind: event.kind });
+  // Jetstream events name their streamer; Twitch and local chat feed the main channel.
+  const channel = event.streamer === undefined ? mainChannel : channelsByDid.get(event.streamer);
+  if (!channel) {
+    continue;
+  }
+  if (event.kind === "delete") {
+    retractChatMessage(channel, event);
+    continue;
+  }
+  if (event.kind === "edit") {
+    editChatMessage(channel, event);
+    continue;
+  }
+  if (event.kind === "block") {
+    applyPlatformBlock(channel, event);
+    continue;
+  }
+  if (isBlocked(channel, event.did)) {
     continue;
   }
 
-  if (commit.operation !== "create" && commit.operation !== "update") {
+  const { did, text } = event;
+  const messageKey =
+    event.messageId === undefined ? undefined : chatMessageKey(event.source, event.messageId);
+  const now = Date.now();
+  const uniqueCommandChatters = countUniqueChattersInWindow(channel, now);
+  const allowCommandSpam = isSpamEnabled(channel, uniqueCommandChatters);
+  const parsedCommand = parseCommand(text, {
+    allowCommandSpam,
+    supportedButtons: channel.supportedButtons,
+  });
+  const modeVote = parseModeVote(text);
+  const macroCall = parseMacroCall(text, config.macros);
+  const isCommand = parsedCommand !== null || modeVote !== null || macroCall !== null;
+  const user = event.user ?? shortenDid(did);
+
+  pushChatMessage(channel, event, user, isCommand);
+  if (event.identity) {
+    cacheLocalIdentity({ did, ...event.identity });
+  }
+  if (did.startsWith("did:")) {
+    hydrateIdentity(did);
+  }
+
+  // The bot's own replies show up in chat like anyone else's.
+  if (did === responder?.did) {
     continue;
   }
 
-  if (!isObject(commit.record)) {
+  if (handleModeratorCommand(channel, did, text)) {
     continue;
   }
 
-  const record = commit.record;
-  if (record.streamer !== STREAMER_DID) {
+  const replyTarget: ReplyTarget = {
+    streamer: channel.streamerDid,
+    did,
+    user,
+    replyRef: event.replyRef,
+  };
+  if (bannedDids.has(did)) {
+    if (isCommand) {
+      commandsRejectedTotal.inc({ channel: channel.name, reason: "banned" });
+      console.log(`${channel.logPrefix}rejected input from banned ${user}`);
+      responder?.reply("banned", replyTarget);
+    }
     continue;
   }
 
-  const text = readMessageText(record);
-  if (!text) {
+  if (text.trim().toLowerCase() === "!help") {
+    responder?.reply("help", replyTarget, { buttons: [...channel.supportedButtons].join(", ") });
     continue;
   }
 
-  const now = Date.now();
-  const uniqueCommandChatters = countUniqueChattersInWindow(now);
-  const allowCommandSpam =
-    uniqueCommandChatters < MIN_UNIQUE_CHATTERS_FOR_NO_SPAM;
-  const parsedCommand = parseCommand(text, { allowCommandSpam });
-  const isCommand = parsedCommand !== null;
-  const user = readUser(record, event.did);
+  if (macroCall) {
+    if (channel.inputMode === "democracy") {
+      commandsRejectedTotal.inc({ channel: channel.name, reason: "democracy_mode" });
+      console.log(`${channel.logPrefix}rejected !${macroCall.name} from ${user}: macros only run in anarchy`);
+      continue;
+    }
+    recordChatterAndCountUnique(channel, did, now);
+    const queued = enqueueMacro(channel, macroCall, did, replyTarget, messageKey);
+    for (const input of queued) {
+      recordViewerStats(did, input, now, event.user);
+    }
+    if (queued.length > 0) {
+      commandsAcceptedTotal.inc({ channel: channel.name, mode: channel.inputMode });
+    }
+    continue;
+  }
 
-  pushChatMessage(event.did, user, text, isCommand);
-  const localIdentity = localIdentityFromRecord(event.did, record);
-  if (localIdentity) {
-    cacheLocalIdentity(localIdentity);
+  if (modeVote) {
+    recordModeVote(channel, did, modeVote, now);
+    continue;
   }
-  hydrateIdentity(event.did);
 
   if (!parsedCommand) {
+    const spamAttempt = allowCommandSpam
+      ? null
+      : parseCommand(text, { allowCommandSpam: true, supportedButtons: channel.supportedButtons });
+    if (spamAttempt) {
+      commandsRejectedTotal.inc({ channel: channel.name, reason: "spam_disabled" });
+      responder?.reply("spamDisabled", replyTarget, {
+        command: spamAttempt.normalized,
+        chatters: `${config.spam.minUniqueChatters}`,
+      });
+    }
     continue;
   }
 
-  recordChatterAndCountUnique(event.did, now);
-  console.log(`accepted "${parsedCommand.normalized}" from ${user}`);
-  enqueueCommand(parsedCommand, event.did);
+  recordChatterAndCountUnique(channel, did, now);
+  // Anarchy inputs are checked as they are queued, so rejections show in the queue strip.
+  const voteViolation = channel.inputMode === "democracy" ? policyViolation(channel, parsedCommand, did, now) : null;
+  if (voteViolation) {
+    commandsRejectedTotal.inc({ channel: channel.name, reason: `policy_${voteViolation.outcome}` });
+    console.log(`${channel.logPrefix}rejected vote "${parsedCommand.normalized}" from ${user}: ${voteViolation.reason}`);
+    responder?.reply("policy", replyTarget, {
+      command: parsedCommand.normalized,
+      reason: voteViolation.reason,
+    });
+    continue;
+  }
+  if (channel.inputMode === "democracy") {
+    recordViewerStats(did, parsedCommand, now, event.user);
+    commandsAcceptedTotal.inc({ channel: channel.name, mode: channel.inputMode });
+    console.log(`${channel.logPrefix}vote "${commandLabel(parsedCommand)}" from ${user}`);
+    castDemocracyVote(channel, parsedCommand, did, now);
+    continue;
+  }
+
+  // Only inputs that made it into the queue count, like macros.
+  if (enqueueCommand(channel, parsedCommand, did, { messageKey, replyTo: replyTarget })) {
+    recordViewerStats(did, parsedCommand, now, event.user);
+    commandsAcceptedTotal.inc({ channel: channel.name, mode: channel.inputMode });
+    console.log(`${channel.logPrefix}accepted "${commandLabel(parsedCommand)}" from ${user}`);
+  }
 }
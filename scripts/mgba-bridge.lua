@@ -1,6 +1,11 @@
 local HOST = os.getenv("MGBA_BRIDGE_HOST") or "127.0.0.1"
 local PORT = tonumber(os.getenv("MGBA_BRIDGE_PORT") or "8765")
 local DEFAULT_DURATION_MS = tonumber(os.getenv("MGBA_BRIDGE_DURATION_MS") or "80")
+local STATE_DIR = os.getenv("MGBA_BRIDGE_STATE_DIR") or "."
+local MAX_STATE_SLOTS = 16
+local MAX_READ_RANGE = 2048
+local PROTOCOL_VERSION = 3
+local BRIDGE_NAME = "mgba-bridge"
 
 local COMMAND_TO_KEY = {
   up = "UP",
@@ -15,6 +20,15 @@ local COMMAND_TO_KEY = {
   r = "R",
 }
 
+-- Chat button name for each GBA key, for key events.
+local KEY_TO_COMMAND = {}
+for command, key_name in pairs(COMMAND_TO_KEY) do
+  local key = C.GBA_KEY[key_name]
+  if key ~= nil then
+    KEY_TO_COMMAND[key] = command
+  end
+end
+
 local function duration_to_frames(duration_ms)
   local ms = tonumber(duration_ms) or DEFAULT_DURATION_MS
   if ms < 1 then
@@ -36,36 +50,290 @@ assert(server:listen(8))
 
 local clients = {}
 local held_until = {}
+-- Keys last reported to clients as down.
+local reported_down = {}
 
 local function remove_client_at(index)
   table.remove(clients, index)
 end
 
-local function handle_command_line(line)
-  local cmd, button, duration = string.match(line, "^(%S+)%s+(%S+)%s*(%S*)%s*$")
-  if cmd ~= "press" or button == nil then
-    return
+local function split_words(line)
+  local words = {}
+  for word in string.gmatch(line, "%S+") do
+    table.insert(words, word)
   end
+  return words
+end
 
-  local key_name = COMMAND_TO_KEY[string.lower(button)]
-  if key_name == nil then
-    return
+local function send_line(entry, line)
+  entry.socket:send(line .. "\n")
+end
+
+-- Resolves `+`-joined button names to GBA keys. Returns the keys, or nil and
+-- an error message if any button is unknown.
+local function parse_keys(buttons)
+  local keys = {}
+  for button in string.gmatch(buttons, "[^+]+") do
+    local key_name = COMMAND_TO_KEY[string.lower(button)]
+    if key_name == nil then
+      return nil, "unknown_button " .. button
+    end
+
+    local key = C.GBA_KEY[key_name]
+    if key == nil then
+      return nil, "unsupported_key " .. key_name
+    end
+    table.insert(keys, key)
   end
 
-  local key = C.GBA_KEY[key_name]
-  if key == nil then
-    return
+  if #keys == 0 then
+    return nil, "missing_button"
+  end
+  return keys, nil
+end
+
+-- Presses every `+`-joined button for `duration` ms. Returns nil on success or
+-- an error message if any button is unknown (nothing is pressed in that case).
+local function press_buttons(buttons, duration)
+  local keys, err = parse_keys(buttons)
+  if keys == nil then
+    return err
   end
 
   local frame = emu:currentFrame()
   local release_frame = frame + duration_to_frames(duration)
 
-  local existing = held_until[key]
-  if existing == nil or release_frame > existing then
-    held_until[key] = release_frame
+  for _, key in ipairs(keys) do
+    local existing = held_until[key]
+    if existing == nil or release_frame > existing then
+      held_until[key] = release_frame
+    end
+
+    emu:addKey(key)
+  end
+
+  return nil
+end
+
+-- Holds buttons until a matching `release`.
+local function hold_buttons(buttons)
+  local keys, err = parse_keys(buttons)
+  if keys == nil then
+    return err
+  end
+
+  for _, key in ipairs(keys) do
+    held_until[key] = math.huge
+    emu:addKey(key)
   end
+  return nil
+end
 
-  emu:addKey(key)
+local function release_buttons(buttons)
+  local keys, err = parse_keys(buttons)
+  if keys == nil then
+    return err
+  end
+
+  for _, key in ipairs(keys) do
+    held_until[key] = nil
+    emu:clearKey(key)
+  end
+  return nil
+end
+
+local function state_path(slot)
+  return string.format("%s/streamplace-slot-%d.ss", STATE_DIR, slot)
+end
+
+local function parse_slot(raw)
+  local slot = tonumber(raw or "")
+  if slot == nil or slot ~= math.floor(slot) or slot < 1 or slot > MAX_STATE_SLOTS then
+    return nil
+  end
+  return slot
+end
+
+local function read_saved_at(slot)
+  local file = io.open(state_path(slot) .. ".meta", "r")
+  if file == nil then
+    return nil
+  end
+  local saved_at = tonumber(file:read("l") or "")
+  file:close()
+  return saved_at
+end
+
+local function release_all_keys()
+  for key, _ in pairs(held_until) do
+    emu:clearKey(key)
+    held_until[key] = nil
+  end
+end
+
+local function save_slot(slot)
+  if not emu:saveStateFile(state_path(slot)) then
+    return false, "save_failed"
+  end
+
+  local meta = io.open(state_path(slot) .. ".meta", "w")
+  if meta ~= nil then
+    meta:write(tostring(os.time()))
+    meta:close()
+  end
+  return true, tostring(emu:currentFrame())
+end
+
+local function load_slot(slot)
+  if read_saved_at(slot) == nil then
+    return false, "empty_slot " .. slot
+  end
+
+  release_all_keys()
+  if not emu:loadStateFile(state_path(slot)) then
+    return false, "load_failed"
+  end
+  return true, tostring(emu:currentFrame())
+end
+
+-- Lists filled slots as `slot:unix_seconds` pairs joined by commas.
+local function list_slots()
+  local entries = {}
+  for slot = 1, MAX_STATE_SLOTS do
+    local saved_at = read_saved_at(slot)
+    if saved_at ~= nil then
+      table.insert(entries, string.format("%d:%d", slot, saved_at))
+    end
+  end
+  return table.concat(entries, ",")
+end
+
+local function parse_address(raw)
+  local address = tonumber(raw or "")
+  if address == nil or address < 0 or address ~= math.floor(address) then
+    return nil
+  end
+  return address
+end
+
+local function to_hex(data)
+  return (string.gsub(data, ".", function(c)
+    return string.format("%02x", string.byte(c))
+  end))
+end
+
+-- Read-only memory access; there is deliberately no write verb.
+local function handle_read(verb, args)
+  local address = parse_address(args[1])
+  if address == nil then
+    return false, "invalid_address " .. tostring(args[1])
+  end
+
+  if verb == "read8" then
+    return true, tostring(emu:read8(address))
+  elseif verb == "read16" then
+    return true, tostring(emu:read16(address))
+  elseif verb == "read32" then
+    return true, tostring(emu:read32(address))
+  end
+
+  local length = tonumber(args[2] or "")
+  if length == nil or length < 1 or length > MAX_READ_RANGE then
+    return false, "invalid_length " .. tostring(args[2])
+  end
+  return true, to_hex(emu:readRange(address, length))
+end
+
+local function handle_request(verb, args)
+  if verb == "read8" or verb == "read16" or verb == "read32" or verb == "readRange" then
+    return handle_read(verb, args)
+  end
+
+  if verb == "ping" then
+    return true, tostring(emu:currentFrame())
+  end
+
+  if verb == "save" or verb == "load" then
+    local slot = parse_slot(args[1])
+    if slot == nil then
+      return false, "invalid_slot " .. tostring(args[1])
+    end
+    if verb == "save" then
+      return save_slot(slot)
+    end
+    return load_slot(slot)
+  end
+
+  if verb == "slots" then
+    return true, list_slots()
+  end
+
+  if verb == "press" then
+    local err = press_buttons(args[1] or "", args[2])
+    if err ~= nil then
+      return false, err
+    end
+    return true, tostring(emu:currentFrame())
+  end
+
+  if verb == "hold" or verb == "release" then
+    local handler = verb == "hold" and hold_buttons or release_buttons
+    local err = handler(args[1] or "")
+    if err ~= nil then
+      return false, err
+    end
+    return true, tostring(emu:currentFrame())
+  end
+
+  return false, "unknown_verb " .. tostring(verb)
+end
+
+local function handle_command_line(entry, line)
+  local words = split_words(line)
+  local head = words[1]
+  if head == nil then
+    return
+  end
+
+  if head == "hello" then
+    local version = tonumber(words[2] or "")
+    if version ~= PROTOCOL_VERSION then
+      send_line(entry, "err hello unsupported_protocol " .. tostring(words[2]))
+      return
+    end
+    entry.version = version
+    send_line(entry, string.format("hello %d %s", PROTOCOL_VERSION, BRIDGE_NAME))
+    -- A reconnecting listener starts from the keys that are already down.
+    local down = {}
+    for key, _ in pairs(reported_down) do
+      table.insert(down, KEY_TO_COMMAND[key])
+    end
+    if #down > 0 then
+      table.sort(down)
+      send_line(entry, string.format("key %d down %s", emu:currentFrame(), table.concat(down, "+")))
+    end
+    return
+  end
+
+  -- Protocol v1: bare `press <button> <ms>` lines with no reply.
+  if head == "press" then
+    press_buttons(words[2] or "", words[3])
+    return
+  end
+
+  if entry.version == nil then
+    send_line(entry, "err " .. head .. " handshake_required")
+    return
+  end
+
+  local ok, data = handle_request(words[2], { table.unpack(words, 3) })
+  if ok and #data == 0 then
+    send_line(entry, "ok " .. head)
+  elseif ok then
+    send_line(entry, "ok " .. head .. " " .. data)
+  else
+    send_line(entry, "err " .. head .. " " .. data)
+  end
 end
 
 local function poll_clients()
@@ -100,7 +368,7 @@ local function poll_clients()
           entry.buffer = string.sub(entry.buffer, newline + 1)
 
           if #line > 0 then
-            handle_command_line(line)
+            handle_command_line(entry, line)
           end
         end
       end
@@ -109,6 +377,38 @@ local function poll_clients()
   end
 end
 
+-- Sends every client that finished the handshake one line per direction,
+-- e.g. `key 1234 down a+b`, for keys that changed since the last report.
+local function report_key_changes(frame)
+  local went_down = {}
+  local went_up = {}
+  for key, _ in pairs(held_until) do
+    if not reported_down[key] then
+      reported_down[key] = true
+      table.insert(went_down, KEY_TO_COMMAND[key])
+    end
+  end
+  for key, _ in pairs(reported_down) do
+    if held_until[key] == nil then
+      reported_down[key] = nil
+      table.insert(went_up, KEY_TO_COMMAND[key])
+    end
+  end
+
+  for _, change in ipairs({ { "down", went_down }, { "up", went_up } }) do
+    local buttons = change[2]
+    if #buttons > 0 then
+      table.sort(buttons)
+      local line = string.format("key %d %s %s", frame, change[1], table.concat(buttons, "+"))
+      for _, entry in ipairs(clients) do
+        if entry.version ~= nil then
+          send_line(entry, line)
+        end
+      end
+    end
+  end
+end
+
 callbacks:add("frame", function()
   poll_clients()
 
@@ -121,6 +421,7 @@ callbacks:add("frame", function()
       emu:addKey(key)
     end
   end
+  report_key_changes(frame)
 end)
 
-console:log(string.format("mGBA bridge listening on %s:%d", HOST, PORT))
+console:log(string.format("mGBA bridge (protocol v%d) listening on %s:%d", PROTOCOL_VERSION, HOST, PORT))
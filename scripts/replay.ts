@@ -0,0 +1,172 @@
+import { parseArgs } from "node:util";
+import { configureCommands, executeCommand, parseCommand } from "../src/commands.ts";
+import { ConfigError, loadConfig, MAIN_CHANNEL } from "../src/config.ts";
+import { inputLogPath, type InputLogEntry } from "../src/input-log.ts";
+import { MgbaBridgeClient } from "../src/mgba-bridge.ts";
+
+const GBA_FRAMES_PER_SECOND = 59.7275;
+
+const USAGE = `Usage: bun run replay [log.jsonl] [options]
+
+Feeds logged inputs back through the listener's dispatcher.
+
+Options:
+  --speed <n>       Playback speed multiplier (default: 1)
+  --max-gap <ms>    Cap the pause between two inputs
+  --from-slot <n>   Load this savestate slot before replaying
+  --start <iso>     Skip inputs logged before this time
+  --end <iso>       Stop at inputs logged after this time
+  --channel <name>  Replay this channel's inputs (default: main)
+  --dry-run         Print inputs instead of sending them to mGBA
+`;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseTime(raw: string | undefined, flag: string): number | null {
+  if (raw === undefined) {
+    return null;
+  }
+  const time = Date.parse(raw);
+  if (Number.isNaN(time)) {
+    throw new Error(`${flag} expects an ISO timestamp, got "${raw}"`);
+  }
+  return time;
+}
+
+async function readEntries(path: string): Promise<InputLogEntry[]> {
+  const text = await Bun.file(path).text();
+  const entries: InputLogEntry[] = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as InputLogEntry);
+    } catch {
+      console.error(`Skipping unreadable line ${index + 1} in ${path}`);
+    }
+  }
+  return entries;
+}
+
+/** Pause before `entry`, preferring the emulator frame delta over wall-clock time. */
+function gapBetween(previous: InputLogEntry, entry: InputLogEntry): number {
+  if (previous.frame !== null && entry.frame !== null && entry.frame >= previous.frame) {
+    return ((entry.frame - previous.frame) / GBA_FRAMES_PER_SECOND) * 1000;
+  }
+  return Math.max(0, Date.parse(entry.timestamp) - Date.parse(previous.timestamp));
+}
+
+const { values, positionals } = parseArgs({
+  args: Bun.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    speed: { type: "string", default: "1" },
+    "max-gap": { type: "string" },
+    "from-slot": { type: "string" },
+    start: { type: "string" },
+    end: { type: "string" },
+    channel: { type: "string", default: MAIN_CHANNEL },
+    "dry-run": { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const speed = Number.parseFloat(values.speed);
+const maxGapMs =
+  values["max-gap"] === undefined ? Number.POSITIVE_INFINITY : Number.parseInt(values["max-gap"], 10);
+const fromSlot =
+  values["from-slot"] === undefined ? null : Number.parseInt(values["from-slot"], 10);
+const startAt = parseTime(values.start, "--start");
+const endAt = parseTime(values.end, "--end");
+const dryRun = values["dry-run"];
+const configFile = process.env.CONFIG_FILE ?? "config.toml";
+const config = await loadConfig(configFile).catch((error: unknown) => {
+  console.error(error instanceof ConfigError ? error.message : error);
+  process.exit(1);
+});
+configureCommands(config.commands);
+const channelName = values.channel;
+const channel =
+  channelName === MAIN_CHANNEL
+    ? null
+    : Object.hasOwn(config.channels, channelName)
+      ? config.channels[channelName]
+      : undefined;
+if (channel === undefined) {
+  console.error(`No channel named "${channelName}" in ${configFile}`);
+  process.exit(1);
+}
+const logPath = positionals[0] ?? inputLogPath(config.inputLog.dir);
+
+if (!(speed > 0) || Number.isNaN(maxGapMs) || (fromSlot !== null && !Number.isInteger(fromSlot))) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const entries = (await readEntries(logPath)).filter((entry) => {
+  const time = Date.parse(entry.timestamp);
+  return (
+    entry.outcome === "done" &&
+    (entry.channel ?? MAIN_CHANNEL) === channelName &&
+    (startAt === null || time >= startAt) &&
+    (endAt === null || time <= endAt)
+  );
+});
+console.log(`Replaying ${entries.length} input(s) from ${logPath} at ${speed}x`);
+
+const bridge = new MgbaBridgeClient({
+  host: channel?.host ?? config.mgba.host,
+  port: channel?.port ?? config.mgba.port,
+  requestTimeoutMs: config.mgba.socketTimeoutMs,
+  heartbeatIntervalMs: config.mgba.heartbeatIntervalMs,
+  minReconnectDelayMs: 250,
+  maxReconnectDelayMs: 2000,
+});
+
+async function press(buttons: string[], durationMs: number): Promise<number | null> {
+  if (dryRun) {
+    console.log(`[DRY_RUN] ${buttons.join("+")} (${durationMs}ms)`);
+    await sleep(durationMs);
+    return null;
+  }
+  await bridge.waitUntilConnected();
+  return bridge.press(buttons, durationMs);
+}
+
+if (!dryRun) {
+  bridge.start();
+  await bridge.waitUntilConnected();
+  if (fromSlot !== null) {
+    console.log(`Loading savestate slot ${fromSlot}`);
+    await bridge.loadState(fromSlot);
+  }
+}
+
+let previous: InputLogEntry | null = null;
+for (const [index, entry] of entries.entries()) {
+  if (previous) {
+    await sleep(Math.min(maxGapMs, gapBetween(previous, entry)) / speed);
+  }
+  previous = entry;
+
+  // Logged commands already passed the live spam check, so repeats are kept.
+  const command = parseCommand(entry.command, { allowCommandSpam: true });
+  if (!command) {
+    console.error(`Skipping "${entry.command}": no longer a valid command`);
+    continue;
+  }
+
+  console.log(`[${index + 1}/${entries.length}] ${entry.timestamp} ${entry.did} ${entry.command}`);
+  await executeCommand(command, press, { waitForHolds: !dryRun });
+}
+
+bridge.stop();
+console.log("Replay finished");
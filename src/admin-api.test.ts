@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { createAdminApi, type AdminController } from "./admin-api.ts";
+
+const TOKEN = "secret";
+
+function controller(overrides: Partial<AdminController> = {}): AdminController {
+  return {
+    queue: () => [],
+    removeQueueItem: () => "not_found",
+    clearQueue: () => 0,
+    isPaused: () => false,
+    pause: () => undefined,
+    resume: () => undefined,
+    spam: () => ({}),
+    setSpamMode: () => undefined,
+    injectCommand: () => ({ accepted: false, reason: "unused" }),
+    config: () => ({}),
+    macros: () => [],
+    setMacroEnabled: () => false,
+    ...overrides,
+  };
+}
+
+function request(path: string, init: RequestInit = {}, token = TOKEN): [Request, string] {
+  return [
+    new Request(`http://localhost${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, ...init.headers },
+    }),
+    path,
+  ];
+}
+
+describe("createAdminApi", () => {
+  test("is disabled without a token", async () => {
+    const api = createAdminApi({ token: "", controller: controller() });
+    expect((await api(...request("/api/queue"))).status).toBe(404);
+  });
+
+  test("rejects a missing or wrong bearer token", async () => {
+    const api = createAdminApi({ token: TOKEN, controller: controller() });
+    const response = await api(...request("/api/queue", {}, "wrong"));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "Missing or invalid bearer token" });
+  });
+
+  test("passes decoded path segments to the controller", async () => {
+    const removed: string[] = [];
+    const api = createAdminApi({
+      token: TOKEN,
+      controller: controller({
+        removeQueueItem: (id) => {
+          removed.push(id);
+          return "removed";
+        },
+      }),
+    });
+    const response = await api(...request("/api/queue/a%20b", { method: "DELETE" }));
+    expect(response.status).toBe(200);
+    expect(removed).toEqual(["a b"]);
+  });
+
+  test("answers malformed percent-encoding with a JSON 400", async () => {
+    const api = createAdminApi({ token: TOKEN, controller: controller() });
+    const response = await api(...request("/api/queue/%E0", { method: "DELETE" }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Malformed path segment "%E0"' });
+  });
+});
@@ -0,0 +1,227 @@
+import { timingSafeEqual } from "node:crypto";
+
+export type SpamMode = "on" | "off" | "auto";
+
+export type RemoveQueueItemResult = "removed" | "not_found" | "not_queued";
+
+export type InjectResult =
+  | { accepted: true; normalized: string; repeatCount: number; mode: string }
+  | { accepted: false; reason: string };
+
+/** Listener operations exposed over HTTP. Each one broadcasts like its chat equivalent. */
+export interface AdminController {
+  queue(): unknown[];
+  removeQueueItem(id: string): RemoveQueueItemResult;
+  clearQueue(): number;
+  isPaused(): boolean;
+  pause(): void;
+  resume(): void;
+  spam(): unknown;
+  setSpamMode(mode: SpamMode): void;
+  injectCommand(command: string): InjectResult;
+  config(): Record<string, unknown>;
+  macros(): unknown[];
+  /** Returns false when there is no macro called `name`. */
+  setMacroEnabled(name: string, enabled: boolean): boolean;
+}
+
+export interface AdminApiOptions {
+  /** Bearer token; an empty token disables the API. */
+  token: string;
+  controller: AdminController;
+}
+
+class AdminApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AdminApiError";
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status, headers: { "Cache-Control": "no-store" } });
+}
+
+function isAuthorized(request: Request, token: string): boolean {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match?.[1]) {
+    return false;
+  }
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (text.trim().length === 0) {
+    return {};
+  }
+  try {
+    const body = JSON.parse(text) as unknown;
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new AdminApiError(400, "Request body must be a JSON object");
+}
+
+function methodNotAllowed(allowed: string[]): never {
+  throw new AdminApiError(405, `Method not allowed; use ${allowed.join(" or ")}`);
+}
+
+async function route(request: Request, path: string[], controller: AdminController): Promise<Response> {
+  const [resource, id, ...rest] = path;
+  if (rest.length > 0) {
+    throw new AdminApiError(404, "Not found");
+  }
+
+  switch (resource) {
+    case "queue":
+      if (id === undefined) {
+        if (request.method === "GET") {
+          return json({ items: controller.queue() });
+        }
+        if (request.method === "DELETE") {
+          return json({ removed: controller.clearQueue() });
+        }
+        return methodNotAllowed(["GET", "DELETE"]);
+      }
+      if (request.method !== "DELETE") {
+        return methodNotAllowed(["DELETE"]);
+      }
+      switch (controller.removeQueueItem(id)) {
+        case "removed":
+          return json({ removed: 1 });
+        case "not_queued":
+          throw new AdminApiError(409, `Queue item ${id} is no longer waiting`);
+        case "not_found":
+          throw new AdminApiError(404, `No queue item ${id}`);
+      }
+      break;
+    case "pause":
+    case "resume":
+      if (id !== undefined) {
+        break;
+      }
+      if (request.method !== "POST") {
+        return methodNotAllowed(["POST"]);
+      }
+      if (resource === "pause") {
+        controller.pause();
+      } else {
+        controller.resume();
+      }
+      return json({ paused: controller.isPaused() });
+    case "spam": {
+      if (id !== undefined) {
+        break;
+      }
+      if (request.method === "GET") {
+        return json({ spam: controller.spam() });
+      }
+      if (request.method !== "POST") {
+        return methodNotAllowed(["GET", "POST"]);
+      }
+      const { mode } = await readJsonBody(request);
+      if (mode !== "on" && mode !== "off" && mode !== "auto") {
+        throw new AdminApiError(400, `"mode" must be "on", "off" or "auto"`);
+      }
+      controller.setSpamMode(mode);
+      return json({ spam: controller.spam() });
+    }
+    case "commands": {
+      if (id !== undefined) {
+        break;
+      }
+      if (request.method !== "POST") {
+        return methodNotAllowed(["POST"]);
+      }
+      const { command } = await readJsonBody(request);
+      if (typeof command !== "string" || command.trim().length === 0) {
+        throw new AdminApiError(400, `"command" must be a non-empty string`);
+      }
+      const result = controller.injectCommand(command);
+      if (!result.accepted) {
+        throw new AdminApiError(422, result.reason);
+      }
+      return json(result, 202);
+    }
+    case "macros": {
+      if (id === undefined) {
+        if (request.method !== "GET") {
+          return methodNotAllowed(["GET"]);
+        }
+        return json({ macros: controller.macros() });
+      }
+      if (request.method !== "POST") {
+        return methodNotAllowed(["POST"]);
+      }
+      const { enabled } = await readJsonBody(request);
+      if (typeof enabled !== "boolean") {
+        throw new AdminApiError(400, `"enabled" must be true or false`);
+      }
+      if (!controller.setMacroEnabled(id.toLowerCase(), enabled)) {
+        throw new AdminApiError(404, `No macro ${id}`);
+      }
+      return json({ macros: controller.macros() });
+    }
+    case "config":
+      if (id !== undefined) {
+        break;
+      }
+      if (request.method !== "GET") {
+        return methodNotAllowed(["GET"]);
+      }
+      return json({ config: controller.config() });
+  }
+
+  throw new AdminApiError(404, "Not found");
+}
+
+function decodePathPart(part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    throw new AdminApiError(400, `Malformed path segment "${part}"`);
+  }
+}
+
+/**
+ * Token-protected JSON API under `/api`. Requests need
+ * `Authorization: Bearer <token>`; every error comes back as `{ "error": "..." }`.
+ * `pathname` is the request's path below any channel prefix, e.g. `/api/queue`.
+ */
+export function createAdminApi(
+  options: AdminApiOptions,
+): (request: Request, pathname: string) => Promise<Response> {
+  return async (request, pathname) => {
+    if (options.token.length === 0) {
+      return json({ error: "Admin API is disabled; set ADMIN_API_TOKEN" }, 404);
+    }
+    if (!isAuthorized(request, options.token)) {
+      return json({ error: "Missing or invalid bearer token" }, 401);
+    }
+
+    try {
+      const path = pathname
+        .replace(/^\/api\/?/, "")
+        .split("/")
+        .filter((part) => part.length > 0)
+        .map(decodePathPart);
+      return await route(request, path, options.controller);
+    } catch (error) {
+      if (error instanceof AdminApiError) {
+        return json({ error: error.message }, error.status);
+      }
+      console.error("Admin API request failed:", error);
+      return json({ error: "Internal error" }, 500);
+    }
+  };
+}
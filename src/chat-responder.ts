@@ -0,0 +1,219 @@
+import { Client, CredentialManager } from "@atcute/client";
+import type { ChatReplyRef } from "./chat-source.ts";
+
+const CHAT_COLLECTION = "place.stream.chat.message";
+const MAX_PENDING_REPLIES = 10;
+const MAX_REPLY_LENGTH = 300;
+const LOGIN_RETRY_MS = 60_000;
+
+export type ReplyKind =
+  | "help"
+  | "spamDisabled"
+  | "banned"
+  | "queueFull"
+  | "userLimit"
+  | "macroCooldown"
+  | "policy"
+  | "milestone";
+
+export interface ChatResponderSettings {
+  /** Gap between two bot messages; replies beyond `MAX_PENDING_REPLIES` are dropped. */
+  minIntervalMs: number;
+  /** How long one viewer waits before getting the same kind of reply again. */
+  userCooldownMs: number;
+  /** Template per reply kind; an empty template turns that reply off. */
+  replies: Readonly<Record<ReplyKind, string>>;
+}
+
+export interface ChatResponderOptions {
+  /** PDS that hosts the bot account. */
+  pdsUrl: string;
+  identifier: string;
+  password: string;
+  settings: ChatResponderSettings;
+}
+
+export interface ReplyTarget {
+  /** The streamer whose chat the message was sent in. */
+  streamer: string;
+  did: string;
+  user: string;
+  replyRef?: ChatReplyRef;
+}
+
+interface PendingReply {
+  streamer: string;
+  text: string;
+  replyRef?: ChatReplyRef;
+}
+
+/** Fills `{name}` placeholders; unknown names are left as they are. */
+export function renderReply(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => vars[name] ?? match);
+}
+
+/**
+ * Posts `place.stream.chat.message` records to streamers' chats as a bot
+ * account. Messages go out one at a time, `minIntervalMs` apart, and each
+ * viewer gets a given kind of reply at most once per `userCooldownMs`, so a
+ * busy chat can't turn the bot into a spammer.
+ */
+export class ChatResponder {
+  private readonly manager: CredentialManager;
+  private readonly client: Client<Record<string, unknown>, Record<string, unknown>>;
+  private settings: ChatResponderSettings;
+  private readonly lastReplyAt = new Map<string, number>();
+  private readonly pending: PendingReply[] = [];
+  private sending = false;
+  private lastSentAt = 0;
+  private lastLoginAttemptAt = 0;
+
+  constructor(private readonly options: ChatResponderOptions) {
+    this.manager = new CredentialManager({ service: options.pdsUrl });
+    this.client = new Client({ handler: this.manager });
+    this.settings = options.settings;
+  }
+
+  /** The bot's DID once logged in, so its own messages can be ignored. */
+  get did(): string | null {
+    return this.manager.session?.did ?? null;
+  }
+
+  configure(settings: ChatResponderSettings): void {
+    this.settings = settings;
+  }
+
+  async start(): Promise<void> {
+    await this.ensureSession();
+  }
+
+  /** Answers one viewer's message. Returns whether a reply was queued. */
+  reply(kind: ReplyKind, target: ReplyTarget, vars: Record<string, string> = {}): boolean {
+    // Only Streamplace messages can be answered in Streamplace chat.
+    if (!target.replyRef) {
+      return false;
+    }
+    const key = `${kind}:${target.did}`;
+    const now = Date.now();
+    const last = this.lastReplyAt.get(key);
+    if (last !== undefined && now - last < this.settings.userCooldownMs) {
+      return false;
+    }
+    if (!this.enqueue(kind, target.streamer, { user: target.user, ...vars }, target.replyRef)) {
+      return false;
+    }
+    this.lastReplyAt.set(key, now);
+    this.forgetExpiredCooldowns(now);
+    return true;
+  }
+
+  /** Posts to `streamer`'s chat without replying to anyone. */
+  announce(kind: ReplyKind, streamer: string, vars: Record<string, string> = {}): boolean {
+    return this.enqueue(kind, streamer, vars);
+  }
+
+  private enqueue(
+    kind: ReplyKind,
+    streamer: string,
+    vars: Record<string, string>,
+    replyRef?: ChatReplyRef,
+  ): boolean {
+    const template = this.settings.replies[kind];
+    if (template.trim().length === 0 || this.pending.length >= MAX_PENDING_REPLIES) {
+      return false;
+    }
+    const text = renderReply(template, vars).trim();
+    this.pending.push({
+      streamer,
+      text: text.length > MAX_REPLY_LENGTH ? `${text.slice(0, MAX_REPLY_LENGTH - 1)}…` : text,
+      replyRef,
+    });
+    void this.drain();
+    return true;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.sending) {
+      return;
+    }
+    this.sending = true;
+    try {
+      while (true) {
+        const next = this.pending.shift();
+        if (!next) {
+          return;
+        }
+        const wait = this.lastSentAt + this.settings.minIntervalMs - Date.now();
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+        this.lastSentAt = Date.now();
+        try {
+          await this.post(next);
+        } catch (error) {
+          console.error("Failed to post bot reply:", error instanceof Error ? error.message : error);
+        }
+      }
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private async post(reply: PendingReply): Promise<void> {
+    const did = await this.ensureSession();
+    if (!did) {
+      throw new Error("bot account is not logged in");
+    }
+    const response = await this.client.post("com.atproto.repo.createRecord", {
+      input: {
+        repo: did,
+        collection: CHAT_COLLECTION,
+        record: {
+          $type: CHAT_COLLECTION,
+          text: reply.text,
+          streamer: reply.streamer,
+          createdAt: new Date().toISOString(),
+          ...(reply.replyRef ? { reply: reply.replyRef } : {}),
+        },
+      },
+      as: "json",
+    });
+    if (!response.ok) {
+      throw new Error(`createRecord returned ${response.status} ${response.data.error}`);
+    }
+  }
+
+  /** Logs in when there is no session, at most once per `LOGIN_RETRY_MS`. */
+  private async ensureSession(): Promise<string | null> {
+    if (this.manager.session) {
+      return this.manager.session.did;
+    }
+    const now = Date.now();
+    if (now - this.lastLoginAttemptAt < LOGIN_RETRY_MS) {
+      return null;
+    }
+    this.lastLoginAttemptAt = now;
+    try {
+      const session = await this.manager.login({
+        identifier: this.options.identifier,
+        password: this.options.password,
+      });
+      console.log(`Chat bot logged in as ${session.handle} (${session.did})`);
+      return session.did;
+    } catch (error) {
+      console.error(
+        `Chat bot login to ${this.options.pdsUrl} failed:`,
+        error instanceof Error ? error.message : error,
+      );
+      return null;
+    }
+  }
+
+  private forgetExpiredCooldowns(now: number): void {
+    for (const [key, at] of this.lastReplyAt) {
+      if (now - at >= this.settings.userCooldownMs) {
+        this.lastReplyAt.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/** Identity hints a source can attach when the platform sends them inline. */
+export interface ChatIdentityHint {
+  handle?: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+/** An atproto strong reference: a record URI pinned to one version by CID. */
+export interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+/** Where a reply to a message goes in its thread. */
+export interface ChatReplyRef {
+  root: StrongRef;
+  parent: StrongRef;
+}
+
+/**
+ * A new chat line normalized across platforms. `did` is the sender's stable id:
+ * an atproto DID for Jetstream, or a `<source>:<login>` id elsewhere, so bans,
+ * moderators and per-user limits work the same for every source. `messageId`
+ * is set when the platform can later edit or delete the message.
+ */
+export interface ChatMessageEvent {
+  kind: "message";
+  source: string;
+  /** The streamer whose chat this is, from sources that follow several; unset means the main channel. */
+  streamer?: string;
+  did: string;
+  messageId?: string;
+  user?: string;
+  text: string;
+  identity?: ChatIdentityHint;
+  /** Set when the message is a record that Streamplace chat can reply to. */
+  replyRef?: ChatReplyRef;
+  createdAt: number;
+}
+
+/** The sender changed the text of a message that was already delivered. */
+export interface ChatEditEvent {
+  kind: "edit";
+  source: string;
+  streamer?: string;
+  did: string;
+  messageId: string;
+  text: string;
+}
+
+/** A delivered message was deleted, by its sender or a platform moderator. */
+export interface ChatDeleteEvent {
+  kind: "delete";
+  source: string;
+  streamer?: string;
+  did: string;
+  messageId: string;
+}
+
+/** The streamer blocked or unblocked `did` on the platform itself. */
+export interface ChatBlockEvent {
+  kind: "block";
+  source: string;
+  streamer?: string;
+  did: string;
+  blocked: boolean;
+}
+
+export type ChatEvent = ChatMessageEvent | ChatEditEvent | ChatDeleteEvent | ChatBlockEvent;
+
+export type ChatSourceStatus = "connecting" | "connected" | "disconnected" | "ended";
+
+export interface ChatSourceState {
+  status: ChatSourceStatus;
+  lastEventAt: number | null;
+  /** How far behind real time the last event arrived, when the platform says. */
+  lagMs: number | null;
+  lastError: string | null;
+}
+
+export interface ChatSource {
+  readonly name: string;
+  readonly state: ChatSourceState;
+  events(): AsyncIterable<ChatEvent>;
+}
+
+/** Unbounded push/pull queue used to turn callback APIs into async iterables. */
+export class ChatEventChannel implements AsyncIterable<ChatEvent> {
+  private buffered: ChatEvent[] = [];
+  private waiters: Array<(result: IteratorResult<ChatEvent>) => void> = [];
+  private closed = false;
+
+  push(event: ChatEvent): void {
+    if (this.closed) {
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: event, done: false });
+      return;
+    }
+    this.buffered.push(event);
+  }
+
+  close(): void {
+    this.closed = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChatEvent> {
+    while (true) {
+      const event = this.buffered.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      if (this.closed) {
+        return;
+      }
+      const result = await new Promise<IteratorResult<ChatEvent>>((resolve) => {
+        this.waiters.push(resolve);
+      });
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  }
+}
+
+/**
+ * Runs every source at once and yields their events in arrival order. A source
+ * that throws is logged and dropped; the stream ends once all sources have.
+ */
+export function mergeChatSources(sources: ChatSource[]): AsyncIterable<ChatEvent> {
+  const channel = new ChatEventChannel();
+  let running = sources.length;
+
+  for (const source of sources) {
+    void (async () => {
+      try {
+        for await (const event of source.events()) {
+          channel.push(event);
+        }
+        console.log(`Chat source ${source.name} ended`);
+      } catch (error) {
+        console.error(`Chat source ${source.name} failed:`, error);
+      } finally {
+        running -= 1;
+        if (running === 0) {
+          channel.close();
+        }
+      }
+    })();
+  }
+
+  if (running === 0) {
+    channel.close();
+  }
+  return channel;
+}
@@ -0,0 +1,59 @@
+/** Thrown instead of calling an upstream whose breaker is open. */
+export class CircuitOpenError extends Error {
+  constructor(readonly target: string) {
+    super(`${target} is failing; skipping requests for now`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export interface CircuitBreakerOptions {
+  /** Failures in a row that open the breaker. */
+  failureThreshold: number;
+  /** How long an open breaker turns requests away before letting one through to test the upstream. */
+  resetMs: number;
+}
+
+/**
+ * Stops calling an upstream that keeps failing. After `failureThreshold`
+ * failures in a row it opens for `resetMs`, then lets a single trial request
+ * through: a success closes it again and a failure reopens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get open(): boolean {
+    return this.failures >= this.options.failureThreshold;
+  }
+
+  /** Whether a request may go out now; an open breaker lets one trial through once `resetMs` has passed. */
+  allows(now: number): boolean {
+    if (!this.open) {
+      return true;
+    }
+    if (now < this.openUntil || this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  succeed(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /** Returns true when this failure opened the breaker. */
+  fail(now: number): boolean {
+    const wasOpen = this.open;
+    this.failures += 1;
+    this.trialInFlight = false;
+    if (this.open) {
+      this.openUntil = now + this.options.resetMs;
+    }
+    return !wasOpen && this.open;
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { blockedStepProblems, CommandPolicy, describePolicy, policyProblems } from "./command-policy.ts";
+import { parseCommand } from "./commands.ts";
+import type { PolicyRuleConfig } from "./config.ts";
+
+function rule(overrides: Partial<PolicyRuleConfig>): PolicyRuleConfig {
+  return { buttons: ["start"], block: false, cooldownMs: 0, minUniqueChatters: 0, ...overrides };
+}
+
+function command(text: string) {
+  const parsed = parseCommand(text);
+  if (!parsed) {
+    throw new Error(`"${text}" should parse`);
+  }
+  return parsed;
+}
+
+describe("CommandPolicy", () => {
+  test("blocks any press that includes every button of a rule", () => {
+    const policy = new CommandPolicy([rule({ buttons: ["select", "start"], block: true })]);
+    expect(policy.check(command("select+start"), 10, 0)?.outcome).toBe("blocked");
+    expect(policy.check(command("up,select+start"), 10, 0)?.outcome).toBe("blocked");
+    expect(policy.check(command("select,start"), 10, 0)).toBeNull();
+  });
+
+  test("locks until enough chatters are playing", () => {
+    const policy = new CommandPolicy([rule({ minUniqueChatters: 3 })]);
+    expect(policy.check(command("start"), 2, 0)).toMatchObject({
+      outcome: "locked",
+      reason: "start unlocks once 3 people are playing (2 now)",
+    });
+    expect(policy.check(command("start"), 3, 0)).toBeNull();
+  });
+
+  test("starts cooldowns only for recorded inputs", () => {
+    const policy = new CommandPolicy([rule({ cooldownMs: 5000 })]);
+    expect(policy.check(command("start"), 1, 1000)).toBeNull();
+    policy.record(command("start"), 1000);
+    expect(policy.check(command("start"), 1, 2000)).toMatchObject({
+      outcome: "cooldown",
+      reason: "start is cooling down for 4s",
+    });
+    expect(policy.check(command("a"), 1, 2000)).toBeNull();
+    expect(policy.check(command("start"), 1, 6000)).toBeNull();
+  });
+
+  test("reports a block over a lock over a cooldown", () => {
+    const policy = new CommandPolicy([
+      rule({ cooldownMs: 5000 }),
+      rule({ buttons: ["a", "start"], minUniqueChatters: 5 }),
+      rule({ buttons: ["b", "start"], block: true }),
+    ]);
+    policy.record(command("start"), 0);
+    expect(policy.check(command("a+start"), 1, 0)?.outcome).toBe("locked");
+    expect(policy.check(command("b+start"), 1, 0)?.outcome).toBe("blocked");
+  });
+
+  test("uses reloaded rules", () => {
+    const policy = new CommandPolicy([rule({ block: true })]);
+    policy.configure([]);
+    expect(policy.check(command("start"), 1, 0)).toBeNull();
+  });
+});
+
+describe("policyProblems", () => {
+  test("names buttons chat can't press", () => {
+    expect(policyProblems([rule({ buttons: ["start", "x"] })], new Set(["start"]))).toEqual([
+      "policy rule 1 (start+x): x is not a supported button",
+    ]);
+  });
+});
+
+describe("blockedStepProblems", () => {
+  test("names steps a block rule turns away, ignoring locks and cooldowns", () => {
+    const rules = [rule({ buttons: ["select", "start"], block: true }), rule({ cooldownMs: 5000, minUniqueChatters: 3 })];
+    const buttons = new Set(["a", "select", "start", "up"]);
+    expect(blockedStepProblems("macros.reset", ["up", "start", "up,select+start x2"], rules, buttons)).toEqual([
+      'macros.reset: "up,select+start x2" is blocked by policy rule select+start',
+    ]);
+  });
+});
+
+describe("describePolicy", () => {
+  test("describes each rule in words", () => {
+    expect(
+      describePolicy([rule({ block: true }), rule({ buttons: ["select"], minUniqueChatters: 3, cooldownMs: 30_000 })]),
+    ).toEqual(["start is turned off", "select unlocks once 3 people are playing, then works at most once every 30s"]);
+  });
+});
@@ -0,0 +1,141 @@
+import { parseCommand, type ParsedCommand } from "./commands.ts";
+import type { PolicyRuleConfig } from "./config.ts";
+
+export type PolicyOutcome = "blocked" | "locked" | "cooldown";
+
+export interface PolicyViolation {
+  outcome: PolicyOutcome;
+  /** The rule's buttons, e.g. `select+start`. */
+  rule: string;
+  /** Why the input was dropped, for logs and chat replies. */
+  reason: string;
+}
+
+function ruleLabel(rule: PolicyRuleConfig): string {
+  return rule.buttons.join("+");
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.max(1, Math.ceil(ms / 1000))}s`;
+}
+
+/** Whether any press in `command` includes every button of `rule`. */
+function matches(rule: PolicyRuleConfig, command: ParsedCommand): boolean {
+  return command.steps.some(
+    (step) => step.kind === "press" && rule.buttons.every((button) => step.buttons.includes(button)),
+  );
+}
+
+/** Every rule naming a button that chat can't press, so a typo doesn't leave a button unguarded. */
+export function policyProblems(
+  rules: readonly PolicyRuleConfig[],
+  supportedButtons: ReadonlySet<string>,
+): string[] {
+  const problems: string[] = [];
+  for (const [index, rule] of rules.entries()) {
+    const unknown = rule.buttons.filter((button) => !supportedButtons.has(button));
+    if (unknown.length > 0) {
+      problems.push(`policy rule ${index + 1} (${ruleLabel(rule)}): ${unknown.join(", ")} is not a supported button`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Every one of `steps` (written like chat commands) that a block rule would
+ * always turn away, so a macro can't be defined around a blocked input.
+ * `setting` names where the steps come from, e.g. `macros.mash`.
+ */
+export function blockedStepProblems(
+  setting: string,
+  steps: readonly string[],
+  rules: readonly PolicyRuleConfig[],
+  supportedButtons: ReadonlySet<string>,
+): string[] {
+  const blocks = new CommandPolicy(rules.filter((rule) => rule.block));
+  const problems: string[] = [];
+  for (const step of steps) {
+    const command = parseCommand(step, { allowCommandSpam: true, supportedButtons });
+    const violation = command ? blocks.check(command, 0, 0) : null;
+    if (violation) {
+      problems.push(`${setting}: "${step}" is blocked by policy rule ${violation.rule}`);
+    }
+  }
+  return problems;
+}
+
+/** One line per rule for the overlay's how-to-play tips. */
+export function describePolicy(rules: readonly PolicyRuleConfig[]): string[] {
+  return rules.map((rule) => {
+    const label = ruleLabel(rule);
+    if (rule.block) {
+      return `${label} is turned off`;
+    }
+    const parts: string[] = [];
+    if (rule.minUniqueChatters > 0) {
+      parts.push(`unlocks once ${rule.minUniqueChatters} people are playing`);
+    }
+    if (rule.cooldownMs > 0) {
+      parts.push(`works at most once every ${formatSeconds(rule.cooldownMs)}`);
+    }
+    return `${label} ${parts.join(", then ")}`;
+  });
+}
+
+/**
+ * Checks parsed commands against the `[[policy]]` rules. Cooldowns are shared
+ * by everyone and start when a matching input is admitted, so `record` must be
+ * called for every input that gets queued.
+ */
+export class CommandPolicy {
+  private readonly lastUse = new Map<string, number>();
+
+  constructor(private rules: readonly PolicyRuleConfig[]) {}
+
+  configure(rules: readonly PolicyRuleConfig[]): void {
+    this.rules = rules;
+  }
+
+  /**
+   * The rule `command` breaks, or null when it may go ahead. A block wins over
+   * a lock and a lock over a cooldown, so the reason names the lasting problem.
+   */
+  check(command: ParsedCommand, uniqueChatters: number, now: number): PolicyViolation | null {
+    const matching = this.rules.filter((rule) => matches(rule, command));
+    const blocked = matching.find((rule) => rule.block);
+    if (blocked) {
+      const label = ruleLabel(blocked);
+      return { outcome: "blocked", rule: label, reason: `${label} is turned off` };
+    }
+    const locked = matching.find((rule) => uniqueChatters < rule.minUniqueChatters);
+    if (locked) {
+      const label = ruleLabel(locked);
+      return {
+        outcome: "locked",
+        rule: label,
+        reason: `${label} unlocks once ${locked.minUniqueChatters} people are playing (${uniqueChatters} now)`,
+      };
+    }
+    for (const rule of matching) {
+      const label = ruleLabel(rule);
+      const readyAt = (this.lastUse.get(label) ?? Number.NEGATIVE_INFINITY) + rule.cooldownMs;
+      if (now < readyAt) {
+        return {
+          outcome: "cooldown",
+          rule: label,
+          reason: `${label} is cooling down for ${formatSeconds(readyAt - now)}`,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Starts the cooldown of every rule `command` matches. */
+  record(command: ParsedCommand, now: number): void {
+    for (const rule of this.rules) {
+      if (rule.cooldownMs > 0 && matches(rule, command)) {
+        this.lastUse.set(ruleLabel(rule), now);
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { configureCommands, executeCommand, parseCommand } from "./commands.ts";
+import { defaultConfig } from "./config.ts";
+
+afterEach(() => {
+  configureCommands(defaultConfig().commands);
+});
+
+describe("parseCommand", () => {
+  test("normalizes a single press", () => {
+    const command = parseCommand("  A ");
+    expect(command?.normalized).toBe("a");
+    expect(command?.repeatCount).toBe(1);
+    expect(command?.steps).toEqual([
+      { kind: "press", buttons: ["a"], durationMs: 80, hold: false, explicitDuration: false },
+    ]);
+  });
+
+  test("parses combos, holds, waits and explicit durations", () => {
+    const command = parseCommand("a+b, up-, wait 1s, start 200ms");
+    expect(command?.normalized).toBe("a+b,up-,wait 1000ms,start 200ms");
+    expect(command?.steps.map((step) => step.durationMs)).toEqual([80, 240, 1000, 200]);
+    expect(command?.totalDurationMs).toBe(80 + 240 + 1000 + 200 + 3 * 80);
+  });
+
+  test("applies button aliases", () => {
+    configureCommands({ ...defaultConfig().commands, aliases: { jump: "a" } });
+    expect(parseCommand("jump")?.normalized).toBe("a");
+  });
+
+  test("rejects unknown buttons, repeated buttons and wait-only sequences", () => {
+    expect(parseCommand("x")).toBeNull();
+    expect(parseCommand("a+a")).toBeNull();
+    expect(parseCommand("wait 1s")).toBeNull();
+    expect(parseCommand("x", { supportedButtons: new Set(["x"]) })?.normalized).toBe("x");
+  });
+
+  test("rejects steps and sequences over the duration limits", () => {
+    expect(parseCommand("a 3s")).toBeNull();
+    expect(parseCommand("a 2s, b 2s, wait 2s")).toBeNull();
+  });
+
+  test("only accepts xN repeats while spam is allowed", () => {
+    expect(parseCommand("a x3")).toBeNull();
+    const command = parseCommand("a x3", { allowCommandSpam: true });
+    expect(command?.normalized).toBe("a");
+    expect(command?.repeatCount).toBe(3);
+    expect(parseCommand("a x1", { allowCommandSpam: true })).toBeNull();
+    expect(parseCommand("a x101", { allowCommandSpam: true })).toBeNull();
+  });
+
+  test("counts every xN repeat against the sequence limit", () => {
+    expect(parseCommand("a 1s x5", { allowCommandSpam: true })?.repeatCount).toBe(5);
+    expect(parseCommand("a 1s x6", { allowCommandSpam: true })).toBeNull();
+  });
+});
+
+describe("executeCommand", () => {
+  test("presses each step in order and reports the first frame", async () => {
+    configureCommands({ ...defaultConfig().commands, queueCommandDelayMs: 0 });
+    const command = parseCommand("a, wait 16ms, b+up")!;
+    const presses: string[][] = [];
+    const frame = await executeCommand(
+      command,
+      async (buttons) => {
+        presses.push(buttons);
+        return presses.length === 1 ? 42 : 43;
+      },
+      { waitForHolds: false },
+    );
+    expect(presses).toEqual([["a"], ["b", "up"]]);
+    expect(frame).toBe(42);
+  });
+
+  test("waits for the last hold when asked to", async () => {
+    const command = parseCommand("a 100ms")!;
+    const startedAt = performance.now();
+    await executeCommand(command, async () => null, { waitForHolds: true });
+    expect(performance.now() - startedAt).toBeGreaterThanOrEqual(95);
+  });
+});
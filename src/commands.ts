@@ -0,0 +1,249 @@
+import { defaultConfig, type CommandConfig } from "./config.ts";
+
+const MAX_COMMAND_SPAM_REPEAT = 100;
+const MAX_SEQUENCE_STEPS = 10;
+const MIN_EXPLICIT_DURATION_MS = 16;
+const DEFAULT_WAIT_DURATION_MS = 500;
+
+let settings: CommandConfig = defaultConfig().commands;
+
+/** Replaces the timing limits and button aliases used by every later parse. */
+export function configureCommands(next: CommandConfig): void {
+  settings = next;
+}
+
+export type CommandStep =
+  | {
+      kind: "press";
+      buttons: string[];
+      durationMs: number;
+      hold: boolean;
+      explicitDuration: boolean;
+    }
+  | { kind: "wait"; durationMs: number; explicitDuration: boolean };
+
+export interface ParsedCommand {
+  steps: CommandStep[];
+  normalized: string;
+  repeatCount: number;
+  totalDurationMs: number;
+}
+
+export interface ParseCommandOptions {
+  allowCommandSpam?: boolean;
+  /** Buttons the active emulator backend can press; defaults to the GBA layout. */
+  supportedButtons?: ReadonlySet<string>;
+}
+
+export const GBA_BUTTONS: readonly string[] = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "a",
+  "b",
+  "start",
+  "select",
+  "l",
+  "r",
+];
+
+const DEFAULT_SUPPORTED_BUTTONS: ReadonlySet<string> = new Set(GBA_BUTTONS);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function normalizeCommand(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+function parseDuration(raw: string): number | null {
+  const match = raw.match(/^(\d+)(ms|s)$/);
+  if (!match || match[1] === undefined) {
+    return null;
+  }
+
+  const value = Number.parseInt(match[1], 10);
+  const durationMs = match[2] === "s" ? value * 1000 : value;
+  if (durationMs < MIN_EXPLICIT_DURATION_MS || durationMs > settings.maxStepDurationMs) {
+    return null;
+  }
+  return durationMs;
+}
+
+function parseStep(raw: string, supportedButtons: ReadonlySet<string>): CommandStep | null {
+  const durationMatch = raw.match(/^(.+?)\s+(\d+(?:ms|s))$/);
+  const body = (durationMatch?.[1] ?? raw).trim();
+  const explicitDurationMs =
+    durationMatch?.[2] === undefined ? undefined : parseDuration(durationMatch[2]);
+  if (explicitDurationMs === null) {
+    return null;
+  }
+
+  if (body === "wait") {
+    return {
+      kind: "wait",
+      durationMs: explicitDurationMs ?? DEFAULT_WAIT_DURATION_MS,
+      explicitDuration: explicitDurationMs !== undefined,
+    };
+  }
+
+  const isExtendedHold = body.endsWith("-");
+  if (isExtendedHold && explicitDurationMs !== undefined) {
+    return null;
+  }
+
+  const base = isExtendedHold ? body.slice(0, -1).trim() : body;
+  if (base.length === 0) {
+    return null;
+  }
+
+  const buttons = base.split("+").map((part) => {
+    const button = part.trim();
+    return settings.aliases[button] ?? button;
+  });
+  if (buttons.length === 0 || buttons.length > Math.max(1, settings.maxComboButtons)) {
+    return null;
+  }
+
+  for (const button of buttons) {
+    if (button.length === 0 || !supportedButtons.has(button)) {
+      return null;
+    }
+  }
+  if (new Set(buttons).size !== buttons.length) {
+    return null;
+  }
+
+  const durationMs =
+    explicitDurationMs ??
+    (isExtendedHold
+      ? (settings.longKeypressDurationMs ?? settings.keypressDurationMs * 3)
+      : settings.keypressDurationMs);
+  return {
+    kind: "press",
+    buttons,
+    durationMs,
+    hold: isExtendedHold,
+    explicitDuration: explicitDurationMs !== undefined,
+  };
+}
+
+function formatStep(step: CommandStep): string {
+  const duration = step.explicitDuration ? ` ${step.durationMs}ms` : "";
+  if (step.kind === "wait") {
+    return `wait${duration}`;
+  }
+  return `${step.buttons.join("+")}${step.hold ? "-" : ""}${duration}`;
+}
+
+export function parseCommand(raw: string, options?: ParseCommandOptions): ParsedCommand | null {
+  const normalizedRaw = normalizeCommand(raw);
+  if (normalizedRaw.length === 0) {
+    return null;
+  }
+
+  const spamMatch = normalizedRaw.match(/^(.+?)\s+x(\d+)$/);
+  if (spamMatch) {
+    if (!options?.allowCommandSpam) {
+      return null;
+    }
+
+    const commandRaw = spamMatch[1];
+    if (commandRaw === undefined) {
+      return null;
+    }
+
+    const repeatRaw = spamMatch[2];
+    if (repeatRaw === undefined) {
+      return null;
+    }
+    const repeatCount = Number.parseInt(repeatRaw, 10);
+    if (
+      !Number.isInteger(repeatCount) ||
+      repeatCount < 2 ||
+      repeatCount > MAX_COMMAND_SPAM_REPEAT
+    ) {
+      return null;
+    }
+
+    const baseCommand = parseCommand(commandRaw, { ...options, allowCommandSpam: false });
+    if (!baseCommand) {
+      return null;
+    }
+    // `totalDurationMs` stays per run, since every repeat is queued on its own.
+    if (baseCommand.totalDurationMs * repeatCount > settings.maxSequenceDurationMs) {
+      return null;
+    }
+
+    return { ...baseCommand, repeatCount };
+  }
+
+  const parts = normalizedRaw.split(",").map((part) => part.trim());
+  if (parts.length === 0 || parts.length > MAX_SEQUENCE_STEPS) {
+    return null;
+  }
+
+  const steps: CommandStep[] = [];
+  for (const part of parts) {
+    const step = parseStep(part, options?.supportedButtons ?? DEFAULT_SUPPORTED_BUTTONS);
+    if (!step) {
+      return null;
+    }
+    steps.push(step);
+  }
+
+  if (!steps.some((step) => step.kind === "press")) {
+    return null;
+  }
+
+  const totalDurationMs =
+    steps.reduce((total, step) => total + step.durationMs, 0) +
+    (steps.length - 1) * settings.queueCommandDelayMs;
+  if (totalDurationMs > settings.maxSequenceDurationMs) {
+    return null;
+  }
+
+  return {
+    steps,
+    normalized: steps.map(formatStep).join(","),
+    repeatCount: 1,
+    totalDurationMs,
+  };
+}
+
+export type PressFn = (buttons: string[], durationMs: number) => Promise<number | null>;
+
+/**
+ * Runs every step of `command` through `press`, in order. When the press
+ * function only acknowledges key-down (the live bridge), `waitForHolds` lets
+ * each hold finish before the next step, and the last one before the command
+ * counts as done, so the next input can't start while a key is still held.
+ * Resolves with the emulator frame of the first press, if the press function
+ * reported one.
+ */
+export async function executeCommand(
+  command: ParsedCommand,
+  press: PressFn,
+  options: { waitForHolds: boolean },
+): Promise<number | null> {
+  let firstFrame: number | null = null;
+  for (const [index, step] of command.steps.entries()) {
+    if (index > 0) {
+      await sleep(settings.queueCommandDelayMs);
+    }
+
+    if (step.kind === "wait") {
+      await sleep(step.durationMs);
+      continue;
+    }
+
+    const frame = await press(step.buttons, step.durationMs);
+    firstFrame ??= frame;
+    if (options.waitForHolds) {
+      await sleep(step.durationMs);
+    }
+  }
+  return firstFrame;
+}
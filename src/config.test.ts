@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigError, defaultConfig, loadConfig, mergeReload, redactConfig, watchConfig } from "./config.ts";
+
+describe("loadConfig", () => {
+  test("uses defaults plus environment overrides when there is no file", async () => {
+    const config = await loadConfig("", { OVERLAY_PORT: "9000", CHAT_SOURCES: "local,twitch", TWITCH_CHANNEL: "x" });
+    expect(config.overlay.port).toBe(9000);
+    expect(config.chat.sources).toEqual(["local", "twitch"]);
+    expect(config.queue.maxPending).toBe(defaultConfig().queue.maxPending);
+  });
+
+  test("lists every invalid setting at once", async () => {
+    const error = await loadConfig("", { OVERLAY_PORT: "0", INPUT_MODE: "chaos" }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toHaveLength(2);
+  });
+
+  test("cross-checks settings that depend on each other", async () => {
+    const error = await loadConfig("", { MAX_STEP_DURATION_MS: "6000" }).catch((caught: unknown) => caught);
+    expect((error as ConfigError).issues).toEqual([
+      "commands.maxStepDurationMs: must not exceed commands.maxSequenceDurationMs",
+    ]);
+  });
+});
+
+describe("mergeReload", () => {
+  test("applies reloadable changes and keeps the rest until a restart", () => {
+    const current = defaultConfig();
+    const next = {
+      ...current,
+      queue: { ...current.queue, maxPending: 5 },
+      overlay: { ...current.overlay, port: 9999 },
+    };
+
+    const { config, changes } = mergeReload(current, next);
+    expect(changes).toEqual([
+      { path: "overlay.port", reloadable: false },
+      { path: "queue.maxPending", reloadable: true },
+    ]);
+    expect(config.queue.maxPending).toBe(5);
+    expect(config.overlay.port).toBe(current.overlay.port);
+    expect(current.queue.maxPending).toBe(defaultConfig().queue.maxPending);
+  });
+
+  test("reports nothing when nothing changed", () => {
+    expect(mergeReload(defaultConfig(), defaultConfig()).changes).toEqual([]);
+  });
+});
+
+describe("redactConfig", () => {
+  test("replaces secrets with whether they are set", () => {
+    const config = { ...defaultConfig(), adminApiToken: "hunter2" };
+    const redacted = redactConfig(config) as { adminApiToken: unknown; twitch: { oauthToken: unknown } };
+    expect(redacted.adminApiToken).toBe("(set)");
+    expect(redacted.twitch.oauthToken).toBeNull();
+  });
+});
+
+describe("watchConfig", () => {
+  let consoleError: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    consoleError = spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  test("skips hot reload when the file's directory doesn't exist", async () => {
+    const path = "/nonexistent-config-dir/config.toml";
+    const config = await loadConfig(path, {});
+    expect(watchConfig(path, () => config, () => undefined, () => undefined, {})).toBeNull();
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(consoleError.mock.calls[0]?.[0]).toBe(`Not watching ${path} for changes; restart to apply edits:`);
+  });
+
+  test("logs and closes a watch that fails later", () => {
+    const path = join(tmpdir(), "config.toml");
+    const watcher = watchConfig(path, defaultConfig, () => undefined, () => undefined, {});
+    if (!watcher) {
+      throw new Error(`${tmpdir()} should be watchable`);
+    }
+    const close = spyOn(watcher, "close");
+    watcher.emit("error", new Error("directory removed"));
+    expect(consoleError).toHaveBeenCalledWith(
+      `Stopped watching ${path} for changes; restart to apply edits:`,
+      "directory removed",
+    );
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
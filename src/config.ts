@@ -0,0 +1,1026 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+
+type Env = Record<string, string | undefined>;
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; expected: string };
+
+interface FieldOptions<T> {
+  /** Environment variable that overrides the file. */
+  env: string;
+  default: T;
+  /** Applied on hot reload; everything else needs a restart. */
+  reloadable?: boolean;
+  /** Left out of `redactConfig`. */
+  secret?: boolean;
+}
+
+/** One setting: where it can come from, how to validate it and whether it reloads. */
+class Field<T> {
+  readonly env: string;
+  readonly default: T;
+  readonly reloadable: boolean;
+  readonly secret: boolean;
+
+  constructor(
+    options: FieldOptions<T>,
+    /** Validates a value from the config file. */
+    readonly parseValue: (value: unknown) => ParseResult<T>,
+    /** Validates a value from the environment, which is always a string. */
+    readonly parseEnv: (value: string) => ParseResult<T>,
+  ) {
+    this.env = options.env;
+    this.default = options.default;
+    this.reloadable = options.reloadable ?? false;
+    this.secret = options.secret ?? false;
+  }
+}
+
+interface Schema {
+  readonly [key: string]: Field<unknown> | Schema;
+}
+
+type Infer<S> = S extends Field<infer T> ? T : { readonly [K in keyof S]: Infer<S[K]> };
+
+function ok<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(expected: string): ParseResult<T> {
+  return { ok: false, expected };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function integer(options: FieldOptions<number> & { min?: number; max?: number }): Field<number> {
+  const { min = 0, max = Number.MAX_SAFE_INTEGER } = options;
+  const expected = max === Number.MAX_SAFE_INTEGER ? `an integer >= ${min}` : `an integer from ${min} to ${max}`;
+  const check = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+      ? ok(value)
+      : fail<number>(expected);
+  return new Field(options, check, (value) =>
+    /^-?\d+$/.test(value.trim()) ? check(Number.parseInt(value, 10)) : fail(expected),
+  );
+}
+
+function optionalInteger(
+  options: FieldOptions<number | null> & { min?: number },
+): Field<number | null> {
+  const inner = integer({ env: options.env, default: 0, min: options.min });
+  return new Field(
+    options,
+    (value) => (value === null ? ok(null) : inner.parseValue(value)),
+    (value) => (value.trim().length === 0 ? ok(null) : inner.parseEnv(value)),
+  );
+}
+
+function ratio(options: FieldOptions<number>): Field<number> {
+  const expected = "a number from 0 to 1";
+  const check = (value: unknown) =>
+    typeof value === "number" && value >= 0 && value <= 1 ? ok(value) : fail<number>(expected);
+  return new Field(options, check, (value) =>
+    value.trim().length > 0 ? check(Number(value)) : fail(expected),
+  );
+}
+
+function boolean(options: FieldOptions<boolean>): Field<boolean> {
+  return new Field(
+    options,
+    (value) => (typeof value === "boolean" ? ok(value) : fail("true or false")),
+    (value) => {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === "1" || normalized === "true") {
+        return ok(true);
+      }
+      if (normalized === "0" || normalized === "false" || normalized === "") {
+        return ok(false);
+      }
+      return fail("1, 0, true or false");
+    },
+  );
+}
+
+function string(options: FieldOptions<string> & { nonEmpty?: boolean }): Field<string> {
+  const check = (value: unknown) =>
+    typeof value === "string" && (!options.nonEmpty || value.trim().length > 0)
+      ? ok(value.trim())
+      : fail<string>(options.nonEmpty ? "a non-empty string" : "a string");
+  return new Field(options, check, check);
+}
+
+function optionalString(options: FieldOptions<string | null>): Field<string | null> {
+  return new Field(
+    options,
+    (value) => (value === null || typeof value === "string" ? ok(value?.trim() || null) : fail("a string")),
+    (value) => ok(value.trim() || null),
+  );
+}
+
+function oneOf<const T extends string>(values: readonly T[], options: FieldOptions<T>): Field<T> {
+  const expected = `one of ${values.join(", ")}`;
+  const check = (value: unknown) => {
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : value;
+    return values.includes(normalized as T) ? ok(normalized as T) : fail<T>(expected);
+  };
+  return new Field(options, check, check);
+}
+
+function optionalOneOf<const T extends string>(
+  values: readonly T[],
+  options: FieldOptions<T | null>,
+): Field<T | null> {
+  const inner = oneOf(values, { env: options.env, default: values[0] as T });
+  return new Field(
+    options,
+    (value) => (value === null ? ok(null) : inner.parseValue(value)),
+    (value) => (value.trim().length === 0 ? ok(null) : inner.parseEnv(value)),
+  );
+}
+
+function stringList(
+  options: FieldOptions<string[]> & { allowed?: readonly string[] },
+): Field<string[]> {
+  const expected = options.allowed
+    ? `a list of ${options.allowed.join(", ")}`
+    : "a list of strings";
+  const check = (items: unknown[]) => {
+    const values = items.map((item) => (typeof item === "string" ? item.trim() : item));
+    if (!values.every((item) => typeof item === "string" && item.length > 0)) {
+      return fail<string[]>(expected);
+    }
+    const strings = values as string[];
+    if (options.allowed && !strings.every((item) => options.allowed?.includes(item.toLowerCase()))) {
+      return fail<string[]>(expected);
+    }
+    return ok(options.allowed ? strings.map((item) => item.toLowerCase()) : strings);
+  };
+  return new Field(
+    options,
+    (value) => (Array.isArray(value) ? check(value) : fail(expected)),
+    (value) => check(splitList(value)),
+  );
+}
+
+function optionalStringList(options: FieldOptions<string[] | null>): Field<string[] | null> {
+  const inner = stringList({ env: options.env, default: [] });
+  return new Field(
+    options,
+    (value) => (value === null ? ok(null) : inner.parseValue(value)),
+    (value) => (value.trim().length === 0 ? ok(null) : inner.parseEnv(value)),
+  );
+}
+
+function integerList(options: FieldOptions<number[]> & { min?: number }): Field<number[]> {
+  const min = options.min ?? 0;
+  const expected = `a list of integers >= ${min}`;
+  const check = (items: unknown[]) =>
+    items.every((item) => typeof item === "number" && Number.isInteger(item) && item >= min)
+      ? ok(items as number[])
+      : fail<number[]>(expected);
+  return new Field(
+    options,
+    (value) => (Array.isArray(value) ? check(value) : fail(expected)),
+    (value) =>
+      splitList(value).every((item) => /^\d+$/.test(item))
+        ? check(splitList(value).map((item) => Number.parseInt(item, 10)))
+        : fail(expected),
+  );
+}
+
+/** Chat words that stand for a button, e.g. `{ u = "up" }` or `u=up,d=down` from the environment. */
+function aliasMap(options: FieldOptions<Record<string, string>>): Field<Record<string, string>> {
+  const expected = 'a table of alias = "button", aliases without spaces, "+", "," or a trailing "-"';
+  const check = (entries: Array<[string, unknown]>) => {
+    const aliases: Record<string, string> = {};
+    for (const [alias, button] of entries) {
+      const key = alias.trim().toLowerCase();
+      if (!/^[^\s+,]+$/.test(key) || key.endsWith("-") || typeof button !== "string" || !button.trim()) {
+        return fail<Record<string, string>>(expected);
+      }
+      aliases[key] = button.trim().toLowerCase();
+    }
+    return ok(aliases);
+  };
+  return new Field(
+    options,
+    (value) =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? check(Object.entries(value))
+        : fail(expected),
+    (value) => {
+      const pairs = splitList(value).map((pair) => pair.split("="));
+      return pairs.every((pair) => pair.length === 2)
+        ? check(pairs.map(([alias = "", button]) => [alias, button]))
+        : fail(expected);
+    },
+  );
+}
+
+/** One streamer-defined chat shortcut, e.g. `!mash`. */
+export interface MacroConfig {
+  /** Chat commands run in order, each becoming its own queue item. */
+  steps: string[];
+  /** Runs of `steps` for a bare `!name`; viewers can ask for more with `!name <runs>`. */
+  repeat: number;
+  /** Most queue items one use may expand to. */
+  maxLength: number;
+  userCooldownMs: number;
+  globalCooldownMs: number;
+  enabled: boolean;
+}
+
+/** Chat commands that a macro name would shadow. */
+const RESERVED_MACRO_NAMES = new Set([
+  "help",
+  "macro",
+  "pause",
+  "resume",
+  "clear",
+  "ban",
+  "unban",
+  "spam",
+  "anarchy",
+  "democracy",
+  "rollback",
+]);
+
+const MACRO_KEYS = new Set(["steps", "repeat", "maxLength", "userCooldownMs", "globalCooldownMs", "enabled"]);
+
+function macroEntry(name: string, value: unknown): ParseResult<MacroConfig> {
+  const subject = `macro "${name}"`;
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(name) || RESERVED_MACRO_NAMES.has(name)) {
+    return fail(`${subject} to have a lowercase name that isn't a built-in command`);
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return fail(`${subject} to be a table`);
+  }
+  const entry = value as Record<string, unknown>;
+  const unknownKey = Object.keys(entry).find((key) => !MACRO_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return fail(`${subject} to have only ${[...MACRO_KEYS].join(", ")} (found ${unknownKey})`);
+  }
+
+  const { steps } = entry;
+  if (
+    !Array.isArray(steps) ||
+    steps.length === 0 ||
+    !steps.every((step) => typeof step === "string" && step.trim().length > 0)
+  ) {
+    return fail(`${subject} to have steps, a non-empty list of chat commands`);
+  }
+  const number = (key: string, fallback: number, min: number): number | null => {
+    const raw = entry[key] ?? fallback;
+    return typeof raw === "number" && Number.isInteger(raw) && raw >= min ? raw : null;
+  };
+  const repeat = number("repeat", 1, 1);
+  const maxLength = number("maxLength", 50, 1);
+  const userCooldownMs = number("userCooldownMs", 30 * 1000, 0);
+  const globalCooldownMs = number("globalCooldownMs", 0, 0);
+  if (repeat === null || maxLength === null || userCooldownMs === null || globalCooldownMs === null) {
+    return fail(`${subject} to have integer repeat and maxLength >= 1 and cooldowns >= 0`);
+  }
+  const enabled = entry.enabled ?? true;
+  if (typeof enabled !== "boolean") {
+    return fail(`${subject} to have enabled = true or false`);
+  }
+  return ok({
+    steps: (steps as string[]).map((step) => step.trim()),
+    repeat,
+    maxLength,
+    userCooldownMs,
+    globalCooldownMs,
+    enabled,
+  });
+}
+
+/** Macros by name, from `[macros.<name>]` tables or a JSON object in the environment. */
+function macroTable(options: FieldOptions<Record<string, MacroConfig>>): Field<Record<string, MacroConfig>> {
+  const check = (value: unknown): ParseResult<Record<string, MacroConfig>> => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail("a table of macros");
+    }
+    const macros: Record<string, MacroConfig> = {};
+    for (const [name, entry] of Object.entries(value)) {
+      const parsed = macroEntry(name.trim().toLowerCase(), entry);
+      if (!parsed.ok) {
+        return parsed;
+      }
+      macros[name.trim().toLowerCase()] = parsed.value;
+    }
+    return ok(macros);
+  };
+  return new Field(options, check, (value) => {
+    try {
+      return check(JSON.parse(value));
+    } catch {
+      return fail("a JSON object of macros");
+    }
+  });
+}
+
+/** One command policy rule, `[[policy]]` in the file. */
+export interface PolicyRuleConfig {
+  /** A button or combo; it matches any press that includes all of these buttons. */
+  buttons: string[];
+  /** Never allowed from chat. */
+  block: boolean;
+  /** Time between two matching inputs across all of chat; 0 for no limit. */
+  cooldownMs: number;
+  /** Unique chatters needed before matching inputs unlock; 0 for always. */
+  minUniqueChatters: number;
+}
+
+const POLICY_KEYS = new Set(["match", "block", "cooldownMs", "minUniqueChatters"]);
+
+function policyEntry(index: number, value: unknown): ParseResult<PolicyRuleConfig> {
+  const subject = `policy rule ${index + 1}`;
+  if (!isRecord(value)) {
+    return fail(`${subject} to be a table`);
+  }
+  const unknownKey = Object.keys(value).find((key) => !POLICY_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return fail(`${subject} to have only ${[...POLICY_KEYS].join(", ")} (found ${unknownKey})`);
+  }
+
+  const buttons =
+    typeof value.match === "string"
+      ? value.match.split("+").map((button) => button.trim().toLowerCase())
+      : [];
+  if (buttons.length === 0 || buttons.some((button) => button.length === 0)) {
+    return fail(`${subject} to have match, a button or combo like "select+start"`);
+  }
+  const block = value.block ?? false;
+  const cooldownMs = value.cooldownMs ?? 0;
+  const minUniqueChatters = value.minUniqueChatters ?? 0;
+  if (
+    typeof block !== "boolean" ||
+    typeof cooldownMs !== "number" ||
+    !Number.isInteger(cooldownMs) ||
+    cooldownMs < 0 ||
+    typeof minUniqueChatters !== "number" ||
+    !Number.isInteger(minUniqueChatters) ||
+    minUniqueChatters < 0
+  ) {
+    return fail(`${subject} to have block = true or false and integer cooldownMs and minUniqueChatters >= 0`);
+  }
+  if (!block && cooldownMs === 0 && minUniqueChatters === 0) {
+    return fail(`${subject} to set block, cooldownMs or minUniqueChatters`);
+  }
+  return ok({ buttons: [...new Set(buttons)].sort(), block, cooldownMs, minUniqueChatters });
+}
+
+/** Command policy rules, from `[[policy]]` tables or a JSON array in the environment. */
+function policyRules(options: FieldOptions<PolicyRuleConfig[]>): Field<PolicyRuleConfig[]> {
+  const check = (value: unknown): ParseResult<PolicyRuleConfig[]> => {
+    if (!Array.isArray(value)) {
+      return fail("a list of policy rules");
+    }
+    const rules: PolicyRuleConfig[] = [];
+    for (const [index, entry] of value.entries()) {
+      const parsed = policyEntry(index, entry);
+      if (!parsed.ok) {
+        return parsed;
+      }
+      rules.push(parsed.value);
+    }
+    return ok(rules);
+  };
+  return new Field(options, check, (value) => {
+    try {
+      return check(JSON.parse(value));
+    } catch {
+      return fail("a JSON array of policy rules");
+    }
+  });
+}
+
+export const OVERLAY_PANELS = ["chat", "queue", "howto", "party", "leaderboard", "controller"] as const;
+export type OverlayPanel = (typeof OVERLAY_PANELS)[number];
+export const CHAT_FILTERS = ["non_commands", "commands", "all"] as const;
+export type ChatFilter = (typeof CHAT_FILTERS)[number];
+
+/** Overrides for one overlay page; anything left out keeps the route's default. */
+export interface OverlayLayoutConfig {
+  panels?: OverlayPanel[];
+  /** `auto` (by local time), `day`, `night`, or a `.css` file in `overlay.themesDir`. */
+  theme?: string;
+  chat?: ChatFilter;
+  orbs?: boolean;
+  chatWidth?: string;
+  chatHeight?: string;
+  /** Width of the leaderboard and controller panels. */
+  sideWidth?: string;
+}
+
+const LAYOUT_LENGTH_KEYS = ["chatWidth", "chatHeight", "sideWidth"] as const;
+const LAYOUT_KEYS = new Set(["panels", "theme", "chat", "orbs", ...LAYOUT_LENGTH_KEYS]);
+
+/** Validates one layout, from `[overlay.layouts.<name>]` or an overlay URL's query string. */
+export function parseOverlayLayout(value: unknown): ParseResult<OverlayLayoutConfig> {
+  if (!isRecord(value)) {
+    return fail("a table of layout settings");
+  }
+  const unknownKey = Object.keys(value).find((key) => !LAYOUT_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return fail(`only ${[...LAYOUT_KEYS].join(", ")} (found ${unknownKey})`);
+  }
+
+  const layout: OverlayLayoutConfig = {};
+  if (value.panels !== undefined) {
+    const panels = Array.isArray(value.panels) ? value.panels : [];
+    if (panels.length === 0 || !panels.every((panel) => OVERLAY_PANELS.includes(panel))) {
+      return fail(`panels as a list of ${OVERLAY_PANELS.join(", ")}`);
+    }
+    layout.panels = [...new Set(panels as OverlayPanel[])];
+  }
+  if (value.theme !== undefined) {
+    if (typeof value.theme !== "string" || !/^[a-z0-9][a-z0-9_-]*$/.test(value.theme)) {
+      return fail("theme as auto, day, night or the name of a theme file");
+    }
+    layout.theme = value.theme;
+  }
+  if (value.chat !== undefined) {
+    if (!CHAT_FILTERS.includes(value.chat as ChatFilter)) {
+      return fail(`chat as one of ${CHAT_FILTERS.join(", ")}`);
+    }
+    layout.chat = value.chat as ChatFilter;
+  }
+  if (value.orbs !== undefined) {
+    if (typeof value.orbs !== "boolean") {
+      return fail("orbs as true or false");
+    }
+    layout.orbs = value.orbs;
+  }
+  for (const key of LAYOUT_LENGTH_KEYS) {
+    const length = value[key];
+    if (length === undefined) {
+      continue;
+    }
+    if (typeof length !== "string" || !/^\d+(\.\d+)?(px|vw|vh|%|em|rem)$/.test(length)) {
+      return fail(`${key} as a CSS length like 460px or 30vw`);
+    }
+    layout[key] = length;
+  }
+  return ok(layout);
+}
+
+/** Named overlay layouts, from `[overlay.layouts.<name>]` tables or a JSON object in the environment. */
+function layoutTable(
+  options: FieldOptions<Record<string, OverlayLayoutConfig>>,
+): Field<Record<string, OverlayLayoutConfig>> {
+  const check = (value: unknown): ParseResult<Record<string, OverlayLayoutConfig>> => {
+    if (!isRecord(value)) {
+      return fail("a table of layouts");
+    }
+    const layouts: Record<string, OverlayLayoutConfig> = {};
+    for (const [name, entry] of Object.entries(value)) {
+      if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+        return fail(`layout "${name}" to have a lowercase name`);
+      }
+      const parsed = parseOverlayLayout(entry);
+      if (!parsed.ok) {
+        return fail(`layout "${name}" to have ${parsed.expected}`);
+      }
+      layouts[name] = parsed.value;
+    }
+    return ok(layouts);
+  };
+  return new Field(options, check, (value) => {
+    try {
+      return check(JSON.parse(value));
+    } catch {
+      return fail("a JSON object of layouts");
+    }
+  });
+}
+
+export const EMULATOR_BACKENDS = ["mgba", "retroarch"] as const;
+export type EmulatorBackendName = (typeof EMULATOR_BACKENDS)[number];
+
+/** The channel the top-level settings describe; `[channels.<name>]` adds others. */
+export const MAIN_CHANNEL = "main";
+
+/** Another streamer and emulator run by the same process, `[channels.<name>]` in the file. */
+export interface ChannelConfig {
+  streamerDid: string;
+  /** Null uses `emulator.backend`. */
+  backend: EmulatorBackendName | null;
+  /** Null uses `mgba.host` or `retroarch.host`. */
+  host: string | null;
+  /** The mGBA bridge port or RetroArch's command port; null uses the top-level one. */
+  port: number | null;
+  /** RetroArch's network input port; null uses `retroarch.inputPort`. */
+  inputPort: number | null;
+}
+
+const CHANNEL_KEYS = new Set(["streamerDid", "backend", "host", "port", "inputPort"]);
+
+function channelEntry(name: string, value: unknown): ParseResult<ChannelConfig> {
+  const subject = `channel "${name}"`;
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(name) || name === MAIN_CHANNEL) {
+    return fail(`${subject} to have a lowercase name other than ${MAIN_CHANNEL}`);
+  }
+  if (!isRecord(value)) {
+    return fail(`${subject} to be a table`);
+  }
+  const unknownKey = Object.keys(value).find((key) => !CHANNEL_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return fail(`${subject} to have only ${[...CHANNEL_KEYS].join(", ")} (found ${unknownKey})`);
+  }
+
+  const { streamerDid, backend = null, host = null, port = null, inputPort = null } = value;
+  if (typeof streamerDid !== "string" || !streamerDid.trim().startsWith("did:")) {
+    return fail(`${subject} to have streamerDid, the streamer's DID`);
+  }
+  if (backend !== null && !EMULATOR_BACKENDS.includes(backend as EmulatorBackendName)) {
+    return fail(`${subject} to have backend = ${EMULATOR_BACKENDS.join(" or ")}`);
+  }
+  if (host !== null && (typeof host !== "string" || host.trim().length === 0)) {
+    return fail(`${subject} to have host as a non-empty string`);
+  }
+  const isPort = (raw: unknown) =>
+    raw === null || (typeof raw === "number" && Number.isInteger(raw) && raw >= 1 && raw <= 65535);
+  if (!isPort(port) || !isPort(inputPort)) {
+    return fail(`${subject} to have port and inputPort as integers from 1 to 65535`);
+  }
+  return ok({
+    streamerDid: streamerDid.trim(),
+    backend: backend as EmulatorBackendName | null,
+    host: typeof host === "string" ? host.trim() : null,
+    port: port as number | null,
+    inputPort: inputPort as number | null,
+  });
+}
+
+/** Extra channels by name, from `[channels.<name>]` tables or a JSON object in the environment. */
+function channelTable(options: FieldOptions<Record<string, ChannelConfig>>): Field<Record<string, ChannelConfig>> {
+  const check = (value: unknown): ParseResult<Record<string, ChannelConfig>> => {
+    if (!isRecord(value)) {
+      return fail("a table of channels");
+    }
+    const channels: Record<string, ChannelConfig> = {};
+    for (const [name, entry] of Object.entries(value)) {
+      const parsed = channelEntry(name, entry);
+      if (!parsed.ok) {
+        return parsed;
+      }
+      channels[name] = parsed.value;
+    }
+    return ok(channels);
+  };
+  return new Field(options, check, (value) => {
+    try {
+      return check(JSON.parse(value));
+    } catch {
+      return fail("a JSON object of channels");
+    }
+  });
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+
+const CONFIG_SCHEMA = {
+  streamerDid: string({ env: "STREAMER_DID", default: "did:plc:b6dcapsekrslqcsjavnafgag", nonEmpty: true }),
+  moderatorDids: stringList({ env: "MODERATOR_DIDS", default: [], reloadable: true }),
+  bansFile: string({ env: "BANS_FILE", default: "bans.json" }),
+  blocklistFile: string({ env: "BLOCKLIST_FILE", default: "blocklist.txt" }),
+  slingshotUrl: string({ env: "SLINGSHOT_URL", default: "https://slingshot.microcosm.blue", nonEmpty: true }),
+  adminApiToken: string({ env: "ADMIN_API_TOKEN", default: "", secret: true }),
+  overlay: {
+    port: integer({ env: "OVERLAY_PORT", default: 8080, min: 1, max: 65535 }),
+    /** Custom theme CSS, picked with `?theme=<file name>`. */
+    themesDir: string({ env: "OVERLAY_THEMES_DIR", default: "themes", reloadable: true }),
+    /** Presets picked with `?layout=<name>`; each one is `[overlay.layouts.<name>]` in the file. */
+    layouts: layoutTable({ env: "OVERLAY_LAYOUTS", default: {}, reloadable: true }),
+  },
+  chat: {
+    sources: stringList({
+      env: "CHAT_SOURCES",
+      default: ["jetstream"],
+      allowed: ["jetstream", "twitch", "local"],
+    }),
+    maxNonCommandMessages: integer({ env: "CHAT_MAX_NON_COMMAND_MESSAGES", default: 80, min: 1, reloadable: true }),
+    maxCommandMessages: integer({ env: "CHAT_MAX_COMMAND_MESSAGES", default: 160, min: 1, reloadable: true }),
+    maxTotalMessages: integer({ env: "CHAT_MAX_TOTAL_MESSAGES", default: 240, min: 1, reloadable: true }),
+    identityCacheTtlMs: integer({ env: "IDENTITY_CACHE_TTL_MS", default: 15 * MINUTE, min: 1, reloadable: true }),
+  },
+  identity: {
+    /** Where resolved identities are saved between runs; empty keeps them in memory only. */
+    cacheFile: string({ env: "IDENTITY_CACHE_FILE", default: "identity-cache.json" }),
+    /** Age up to which a cached identity is still shown while it refreshes; older ones wait for a lookup. */
+    maxStaleMs: integer({ env: "IDENTITY_MAX_STALE_MS", default: 7 * DAY, min: 1, reloadable: true }),
+    /** PLC directory asked for DID documents when Slingshot is down. */
+    plcUrl: string({ env: "PLC_URL", default: "https://plc.directory", nonEmpty: true }),
+    timeoutMs: integer({ env: "IDENTITY_TIMEOUT_MS", default: 5 * SECOND, min: 1 }),
+    maxConcurrent: integer({ env: "IDENTITY_MAX_CONCURRENT", default: 4, min: 1 }),
+    /** Failures in a row that stop requests to one upstream host for `breakerResetMs`. */
+    breakerFailures: integer({ env: "IDENTITY_BREAKER_FAILURES", default: 5, min: 1 }),
+    breakerResetMs: integer({ env: "IDENTITY_BREAKER_RESET_MS", default: 30 * SECOND, min: 1 }),
+  },
+  jetstream: {
+    url: string({ env: "JETSTREAM_URL", default: "wss://jetstream2.us-east.bsky.network", nonEmpty: true }),
+    cursorFile: string({ env: "JETSTREAM_CURSOR_FILE", default: "jetstream-cursor.json" }),
+    maxLookbackMs: integer({ env: "JETSTREAM_MAX_LOOKBACK_MS", default: 30 * SECOND }),
+  },
+  twitch: {
+    ircUrl: string({ env: "TWITCH_IRC_URL", default: "wss://irc-ws.chat.twitch.tv:443", nonEmpty: true }),
+    channel: string({ env: "TWITCH_CHANNEL", default: "" }),
+    nick: optionalString({ env: "TWITCH_NICK", default: null }),
+    oauthToken: optionalString({ env: "TWITCH_OAUTH_TOKEN", default: null, secret: true }),
+  },
+  local: {
+    file: string({ env: "LOCAL_CHAT_FILE", default: "-", nonEmpty: true }),
+    lineDelayMs: integer({ env: "LOCAL_CHAT_LINE_DELAY_MS", default: 0 }),
+  },
+  emulator: {
+    backend: oneOf(EMULATOR_BACKENDS, { env: "EMULATOR_BACKEND", default: "mgba" }),
+    /** Subset of the backend's buttons chat may press; null allows all of them. */
+    buttons: optionalStringList({ env: "EMULATOR_BUTTONS", default: null }),
+    dryRun: boolean({ env: "DRY_RUN", default: false }),
+  },
+  mgba: {
+    host: string({ env: "MGBA_HOST", default: "127.0.0.1", nonEmpty: true }),
+    port: integer({ env: "MGBA_PORT", default: 8765, min: 1, max: 65535 }),
+    socketTimeoutMs: integer({ env: "MGBA_SOCKET_TIMEOUT_MS", default: 1500, min: 1 }),
+    heartbeatIntervalMs: integer({ env: "MGBA_HEARTBEAT_INTERVAL_MS", default: 2000, min: 1 }),
+    reconnectMaxDelayMs: integer({ env: "MGBA_RECONNECT_MAX_DELAY_MS", default: 10 * SECOND, min: 1 }),
+  },
+  retroarch: {
+    host: string({ env: "RETROARCH_HOST", default: "127.0.0.1", nonEmpty: true }),
+    commandPort: integer({ env: "RETROARCH_COMMAND_PORT", default: 55355, min: 1, max: 65535 }),
+    inputPort: integer({ env: "RETROARCH_INPUT_PORT", default: 55400, min: 1, max: 65535 }),
+    timeoutMs: integer({ env: "RETROARCH_TIMEOUT_MS", default: 1000, min: 1 }),
+  },
+  commands: {
+    keypressDurationMs: integer({ env: "KEYPRESS_DURATION_MS", default: 80, min: 1, reloadable: true }),
+    /** Null means three times `keypressDurationMs`. */
+    longKeypressDurationMs: optionalInteger({ env: "LONG_KEYPRESS_DURATION_MS", default: null, min: 1, reloadable: true }),
+    queueCommandDelayMs: integer({ env: "QUEUE_COMMAND_DELAY_MS", default: 80, reloadable: true }),
+    maxStepDurationMs: integer({ env: "MAX_STEP_DURATION_MS", default: 2000, min: 16, reloadable: true }),
+    maxSequenceDurationMs: integer({ env: "MAX_SEQUENCE_DURATION_MS", default: 5000, min: 1, reloadable: true }),
+    maxComboButtons: integer({ env: "MAX_COMBO_BUTTONS", default: 2, min: 1, reloadable: true }),
+    aliases: aliasMap({ env: "BUTTON_ALIASES", default: {}, reloadable: true }),
+  },
+  queue: {
+    maxItems: integer({ env: "QUEUE_MAX_ITEMS", default: 40, min: 1, reloadable: true }),
+    maxPending: integer({ env: "QUEUE_MAX_PENDING", default: 40, min: 1, reloadable: true }),
+    maxPendingPerUser: integer({ env: "QUEUE_MAX_PENDING_PER_USER", default: 20, min: 1, reloadable: true }),
+    spamRepeatDelayMs: integer({ env: "SPAM_REPEAT_DELAY_MS", default: 140, reloadable: true }),
+  },
+  spam: {
+    chatterWindowMs: integer({ env: "SPAM_CHATTER_WINDOW_MS", default: 10 * MINUTE, min: 1, reloadable: true }),
+    /** Spam (`xN`) switches off once this many people chat commands within the window. */
+    minUniqueChatters: integer({ env: "SPAM_MIN_UNIQUE_CHATTERS", default: 3, min: 1, reloadable: true }),
+  },
+  inputMode: {
+    initial: oneOf(["anarchy", "democracy"], { env: "INPUT_MODE", default: "anarchy" }),
+    democracyWindowMs: integer({ env: "DEMOCRACY_WINDOW_MS", default: 5000, min: 1, reloadable: true }),
+    voting: boolean({ env: "MODE_VOTING", default: false, reloadable: true }),
+    voteWindowMs: integer({ env: "MODE_VOTE_WINDOW_MS", default: 2 * MINUTE, min: 1, reloadable: true }),
+    minVotesForSwitch: integer({ env: "MODE_MIN_VOTES", default: 3, min: 1, reloadable: true }),
+    switchRatio: ratio({ env: "MODE_SWITCH_RATIO", default: 0.75, reloadable: true }),
+  },
+  gameState: {
+    pollMs: integer({ env: "GAME_STATE_POLL_MS", default: 2000 }),
+    gameVersion: optionalOneOf(["firered", "leafgreen", "emerald"], { env: "GAME_VERSION", default: null }),
+  },
+  autosave: {
+    intervalMinutes: integer({ env: "AUTOSAVE_INTERVAL_MINUTES", default: 10 }),
+    slots: integerList({ env: "AUTOSAVE_SLOTS", default: [1, 2, 3], min: 1 }),
+  },
+  idle: {
+    /** Chat going this long without an accepted command makes a channel idle; 0 turns idle detection off. */
+    afterMs: integer({ env: "IDLE_AFTER_MS", default: 0, reloadable: true }),
+    /** Steps looped while idle, written like macro steps; empty pauses the emulator instead. */
+    attract: stringList({ env: "IDLE_ATTRACT", default: [], reloadable: true }),
+  },
+  inputLog: {
+    dir: string({ env: "INPUT_LOG_DIR", default: "logs" }),
+    maxBytes: integer({ env: "INPUT_LOG_MAX_BYTES", default: 10 * 1024 * 1024, min: 1 }),
+    maxFiles: integer({ env: "INPUT_LOG_MAX_FILES", default: 5, min: 1 }),
+  },
+  stats: {
+    db: string({ env: "STATS_DB", default: "stats.sqlite" }),
+  },
+  /** Streamer-defined shortcuts; each one is `[macros.<name>]` in the file. */
+  macros: macroTable({ env: "MACROS", default: {}, reloadable: true }),
+  /** Limits on particular buttons and combos; each rule is a `[[policy]]` table in the file. */
+  policy: policyRules({ env: "COMMAND_POLICY", default: [], reloadable: true }),
+  /** More streamers served by this process, each at `/c/<name>/overlay`. */
+  channels: channelTable({ env: "CHANNELS", default: {} }),
+  bot: {
+    pdsUrl: string({ env: "BOT_PDS_URL", default: "https://bsky.social", nonEmpty: true }),
+    /** Handle or DID of the bot account; empty turns chat replies off. */
+    identifier: string({ env: "BOT_IDENTIFIER", default: "" }),
+    appPassword: string({ env: "BOT_APP_PASSWORD", default: "", secret: true }),
+    minIntervalMs: integer({ env: "BOT_MIN_INTERVAL_MS", default: 3 * SECOND, reloadable: true }),
+    userCooldownMs: integer({ env: "BOT_USER_COOLDOWN_MS", default: MINUTE, reloadable: true }),
+    replies: {
+      help: string({
+        env: "BOT_REPLY_HELP",
+        default:
+          "Type a button to play: {buttons}. Combos: b+right. Holds: up- or right 600ms. Sequences: up,up,a. Repeats while spam is on: a x5.",
+        reloadable: true,
+      }),
+      spamDisabled: string({
+        env: "BOT_REPLY_SPAM_DISABLED",
+        default: "Repeats are off while {chatters} or more people are playing. Send \"{command}\" on its own instead.",
+        reloadable: true,
+      }),
+      banned: string({
+        env: "BOT_REPLY_BANNED",
+        default: "You are banned from sending inputs.",
+        reloadable: true,
+      }),
+      queueFull: string({
+        env: "BOT_REPLY_QUEUE_FULL",
+        default: "The queue is full ({limit} inputs waiting), so \"{command}\" was dropped. Try again in a moment.",
+        reloadable: true,
+      }),
+      userLimit: string({
+        env: "BOT_REPLY_USER_LIMIT",
+        default: "You already have {limit} inputs waiting, so \"{command}\" was dropped.",
+        reloadable: true,
+      }),
+      macroCooldown: string({
+        env: "BOT_REPLY_MACRO_COOLDOWN",
+        default: "!{macro} is cooling down. Try again in {seconds}s.",
+        reloadable: true,
+      }),
+      policy: string({
+        env: "BOT_REPLY_POLICY",
+        default: "\"{command}\" was dropped: {reason}.",
+        reloadable: true,
+      }),
+      milestone: string({ env: "BOT_REPLY_MILESTONE", default: "{milestone}", reloadable: true }),
+    },
+  },
+} satisfies Schema;
+
+export type Config = Infer<typeof CONFIG_SCHEMA>;
+export type CommandConfig = Config["commands"];
+
+/** Every problem found in one load, so a bad file can be fixed in one go. */
+export class ConfigError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid config (${source}):\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+export interface ConfigChange {
+  path: string;
+  reloadable: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function resolve(
+  schema: Schema,
+  file: Record<string, unknown>,
+  env: Env,
+  prefix: string,
+  issues: string[],
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(file)) {
+    if (!(key in schema)) {
+      issues.push(`${prefix}${key}: unknown setting`);
+    }
+  }
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const path = `${prefix}${key}`;
+    const fileValue = file[key];
+    if (!(spec instanceof Field)) {
+      if (fileValue !== undefined && !isRecord(fileValue)) {
+        issues.push(`${path}: expected a section, got ${describe(fileValue)}`);
+      }
+      result[key] = resolve(spec, isRecord(fileValue) ? fileValue : {}, env, `${path}.`, issues);
+      continue;
+    }
+
+    const envValue = env[spec.env];
+    if (envValue !== undefined) {
+      const parsed = spec.parseEnv(envValue);
+      if (parsed.ok) {
+        result[key] = parsed.value;
+      } else {
+        issues.push(`${spec.env} (${path}): expected ${parsed.expected}, got ${describe(envValue)}`);
+      }
+      continue;
+    }
+
+    if (fileValue === undefined) {
+      result[key] = spec.default;
+      continue;
+    }
+    const parsed = spec.parseValue(fileValue);
+    if (parsed.ok) {
+      result[key] = parsed.value;
+    } else {
+      issues.push(`${path}: expected ${parsed.expected}, got ${describe(fileValue)}`);
+    }
+  }
+
+  return result;
+}
+
+function crossCheck(config: Config): string[] {
+  const issues: string[] = [];
+  if (config.chat.sources.length === 0) {
+    issues.push("chat.sources: needs at least one source");
+  }
+  if (config.chat.sources.includes("twitch") && config.twitch.channel.length === 0) {
+    issues.push("twitch.channel: required when chat.sources includes twitch");
+  }
+  if (config.bot.identifier.length > 0 && config.bot.appPassword.length === 0) {
+    issues.push("bot.appPassword: required when bot.identifier is set");
+  }
+  if (config.commands.maxStepDurationMs > config.commands.maxSequenceDurationMs) {
+    issues.push("commands.maxStepDurationMs: must not exceed commands.maxSequenceDurationMs");
+  }
+  if (config.chat.identityCacheTtlMs > config.identity.maxStaleMs) {
+    issues.push("chat.identityCacheTtlMs: must not exceed identity.maxStaleMs");
+  }
+  const channelsByDid = new Map([[config.streamerDid, MAIN_CHANNEL]]);
+  for (const [name, channel] of Object.entries(config.channels)) {
+    const other = channelsByDid.get(channel.streamerDid);
+    if (other !== undefined) {
+      issues.push(`channels.${name}.streamerDid: already the streamer of channel ${other}`);
+    }
+    channelsByDid.set(channel.streamerDid, name);
+  }
+  return issues;
+}
+
+async function readConfigFile(path: string): Promise<Record<string, unknown>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return {};
+  }
+
+  const text = await file.text();
+  let parsed: unknown;
+  try {
+    parsed = path.endsWith(".json") ? JSON.parse(text) : Bun.TOML.parse(text);
+  } catch (error) {
+    throw new ConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+  if (!isRecord(parsed)) {
+    throw new ConfigError(path, ["expected a table of settings at the top level"]);
+  }
+  return parsed;
+}
+
+/**
+ * Reads `path` (TOML, or JSON when it ends in `.json`) and applies environment
+ * overrides on top. A missing file means defaults plus environment. Throws a
+ * `ConfigError` listing every invalid or unknown setting.
+ */
+export async function loadConfig(path: string, env: Env = process.env): Promise<Config> {
+  const file = path.length > 0 ? await readConfigFile(path) : {};
+  const issues: string[] = [];
+  const config = resolve(CONFIG_SCHEMA, file, env, "", issues) as Config;
+  if (issues.length === 0) {
+    issues.push(...crossCheck(config));
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(path || "environment", issues);
+  }
+  return config;
+}
+
+/** Built-in defaults, ignoring the file and the environment. */
+export function defaultConfig(): Config {
+  return resolve(CONFIG_SCHEMA, {}, {}, "", []) as Config;
+}
+
+function walk(
+  schema: Schema,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  prefix: string,
+  visit: (path: string, field: Field<unknown>, previous: unknown, next: unknown) => void,
+): void {
+  for (const [key, spec] of Object.entries(schema)) {
+    const path = `${prefix}${key}`;
+    if (spec instanceof Field) {
+      visit(path, spec, previous[key], next[key]);
+    } else {
+      walk(spec, previous[key] as Record<string, unknown>, next[key] as Record<string, unknown>, `${path}.`, visit);
+    }
+  }
+}
+
+/**
+ * Takes reloadable settings from `next` and keeps the rest from `current`.
+ * `changes` lists every setting that differs, applied or not.
+ */
+export function mergeReload(current: Config, next: Config): { config: Config; changes: ConfigChange[] } {
+  const config = structuredClone(current) as unknown as Record<string, unknown>;
+  const changes: ConfigChange[] = [];
+  walk(CONFIG_SCHEMA, current, next, "", (path, field, before, after) => {
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+      return;
+    }
+    changes.push({ path, reloadable: field.reloadable });
+    if (field.reloadable) {
+      const keys = path.split(".");
+      const leaf = keys.pop() as string;
+      let target = config;
+      for (const key of keys) {
+        target = target[key] as Record<string, unknown>;
+      }
+      target[leaf] = after;
+    }
+  });
+  return { config: config as Config, changes };
+}
+
+/** A copy that is safe to show: secrets are replaced by whether they are set. */
+export function redactConfig(config: Config): Record<string, unknown> {
+  const redacted = structuredClone(config) as unknown as Record<string, unknown>;
+  walk(CONFIG_SCHEMA, redacted, redacted, "", (path, field, value) => {
+    if (!field.secret) {
+      return;
+    }
+    const keys = path.split(".");
+    const leaf = keys.pop() as string;
+    let target = redacted;
+    for (const key of keys) {
+      target = target[key] as Record<string, unknown>;
+    }
+    target[leaf] = value ? "(set)" : null;
+  });
+  return redacted;
+}
+
+/**
+ * Calls `onReload` with the merged config whenever `path` changes and still
+ * validates. Invalid edits are reported through `onError` and ignored. Returns
+ * null, after logging why, when `path`'s directory can't be watched, e.g.
+ * because it doesn't exist and the defaults are in use. A watch that fails
+ * later is logged and closed.
+ */
+export function watchConfig(
+  path: string,
+  getCurrent: () => Config,
+  onReload: (config: Config, changes: ConfigChange[]) => void,
+  onError: (error: unknown) => void,
+  env: Env = process.env,
+): FSWatcher | null {
+  const name = basename(path);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Editors often replace the file instead of writing it, so watch its directory.
+  const listener = (_event: string, filename: string | null): void => {
+    if (filename !== name || timer) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      loadConfig(path, env)
+        .then((next) => {
+          const { config, changes } = mergeReload(getCurrent(), next);
+          if (changes.length > 0) {
+            onReload(config, changes);
+          }
+        })
+        .catch(onError);
+    }, 200);
+  };
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(dirname(path), listener);
+  } catch (error) {
+    console.error(
+      `Not watching ${path} for changes; restart to apply edits:`,
+      error instanceof Error ? error.message : error,
+    );
+    return null;
+  }
+  // E.g. the directory was removed or remounted; unhandled, this would end the process.
+  watcher.on("error", (error) => {
+    console.error(`Stopped watching ${path} for changes; restart to apply edits:`, error.message);
+    watcher.close();
+  });
+  return watcher;
+}
@@ -0,0 +1,91 @@
+export type BridgeStatus = "connecting" | "connected" | "disconnected";
+
+export interface BridgeState {
+  status: BridgeStatus;
+  protocolVersion: number | null;
+  bridgeName: string | null;
+  lastError: string | null;
+  reconnectAttempts: number;
+  lastAckAt: number | null;
+  latencyMs: number | null;
+  /** Requests answered with an error, and connections lost, since startup. */
+  errorCount: number;
+  /** Requests and handshakes that got no answer in time, since startup. */
+  timeoutCount: number;
+}
+
+/** Buttons going down or up in the emulator, as the backend reports them. */
+export interface KeyEvent {
+  buttons: string[];
+  down: boolean;
+  /** Emulator frame of the change, when the backend knows it. */
+  frame: number | null;
+}
+
+export interface SavestateSlot {
+  slot: number;
+  savedAt: number;
+}
+
+/** Rejected for requests that were in flight (or issued) while the emulator was unreachable. */
+export class BridgeDisconnectedError extends Error {
+  constructor(message = "Emulator backend is not connected") {
+    super(message);
+    this.name = "BridgeDisconnectedError";
+  }
+}
+
+/**
+ * What the listener needs from an emulator: a connection lifecycle and button
+ * input. Savestates, memory reads and pausing are optional capabilities,
+ * checked with `supportsSavestates` / `supportsMemoryReads` / `supportsPausing`.
+ */
+export interface EmulatorBackend {
+  readonly name: string;
+  /** Chat button names this backend can press. */
+  readonly buttons: readonly string[];
+  readonly state: BridgeState;
+  readonly connected: boolean;
+  start(): void;
+  stop(): void;
+  waitUntilConnected(): Promise<void>;
+  /** Holds `buttons` for `durationMs`; resolves with the frame they went down on, when known. */
+  press(buttons: string[], durationMs: number): Promise<number | null>;
+  hold(buttons: string[]): Promise<void>;
+  release(buttons: string[]): Promise<void>;
+}
+
+export interface SavestateCapability {
+  saveState(slot: number): Promise<void>;
+  loadState(slot: number): Promise<void>;
+  listStates(): Promise<SavestateSlot[]>;
+}
+
+/** Read-only access to the emulated system's memory map. */
+export interface MemoryCapability {
+  read8(address: number): Promise<number>;
+  read16(address: number): Promise<number>;
+  read32(address: number): Promise<number>;
+  readRange(address: number, length: number): Promise<Uint8Array>;
+}
+
+/** Stops and restarts emulation, e.g. while chat is idle. */
+export interface PauseCapability {
+  setPaused(paused: boolean): Promise<void>;
+}
+
+export function supportsSavestates(
+  backend: EmulatorBackend,
+): backend is EmulatorBackend & SavestateCapability {
+  return "saveState" in backend && "loadState" in backend && "listStates" in backend;
+}
+
+export function supportsMemoryReads(
+  backend: EmulatorBackend,
+): backend is EmulatorBackend & MemoryCapability {
+  return "readRange" in backend && "read8" in backend && "read32" in backend;
+}
+
+export function supportsPausing(backend: EmulatorBackend): backend is EmulatorBackend & PauseCapability {
+  return "setPaused" in backend;
+}
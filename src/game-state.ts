@@ -0,0 +1,382 @@
+import type { MemoryCapability } from "./emulator-backend.ts";
+
+export type GameVersion = "firered" | "leafgreen" | "emerald";
+
+export interface PartyMember {
+  personality: number;
+  species: number;
+  nationalDex: number | null;
+  nickname: string;
+  level: number;
+  hp: number;
+  maxHp: number;
+  isEgg: boolean;
+}
+
+export interface GameState {
+  game: GameVersion;
+  party: PartyMember[];
+  location: {
+    mapGroup: number;
+    mapNum: number;
+    name: string | null;
+  };
+  badges: boolean[];
+  badgeCount: number;
+  polledAt: number;
+}
+
+export type MilestoneKind = "badge" | "party_member" | "whiteout";
+
+export interface Milestone {
+  id: string;
+  kind: MilestoneKind;
+  message: string;
+  createdAt: number;
+}
+
+interface AddressMap {
+  partyCount: number;
+  party: number;
+  saveBlock1Ptr: number;
+  saveBlock1FlagsOffset: number;
+  firstBadgeFlag: number;
+  mapNames: Record<string, string>;
+}
+
+const GAME_CODE_ADDRESS = 0x080000ac;
+const PARTY_SIZE = 6;
+const PARTY_MON_SIZE = 100;
+const BADGE_COUNT = 8;
+const SPECIES_EGG = 412;
+
+const GAME_CODES: Record<string, GameVersion> = {
+  BPRE: "firered",
+  BPGE: "leafgreen",
+  BPEE: "emerald",
+};
+
+function namedMaps(group: number, first: number, names: string[]): Record<string, string> {
+  return Object.fromEntries(names.map((name, index) => [`${group}.${first + index}`, name]));
+}
+
+function numberedRoutes(from: number, to: number): string[] {
+  return Array.from({ length: to - from + 1 }, (_, index) => `Route ${from + index}`);
+}
+
+// Outdoor maps only; interiors and dungeons fall back to their group/num.
+const KANTO_MAP_NAMES = {
+  ...namedMaps(3, 0, [
+    "Pallet Town",
+    "Viridian City",
+    "Pewter City",
+    "Cerulean City",
+    "Lavender Town",
+    "Vermilion City",
+    "Celadon City",
+    "Fuchsia City",
+    "Cinnabar Island",
+    "Indigo Plateau",
+    "Saffron City",
+  ]),
+  ...namedMaps(3, 19, numberedRoutes(1, 25)),
+};
+
+const HOENN_MAP_NAMES = {
+  ...namedMaps(0, 0, [
+    "Petalburg City",
+    "Slateport City",
+    "Mauville City",
+    "Rustboro City",
+    "Fortree City",
+    "Lilycove City",
+    "Mossdeep City",
+    "Sootopolis City",
+    "Ever Grande City",
+    "Littleroot Town",
+    "Oldale Town",
+    "Dewford Town",
+    "Lavaridge Town",
+    "Fallarbor Town",
+    "Verdanturf Town",
+    "Pacifidlog Town",
+  ]),
+  ...namedMaps(0, 16, numberedRoutes(101, 134)),
+};
+
+// FireRed and LeafGreen share their RAM layout.
+const KANTO_ADDRESSES: AddressMap = {
+  partyCount: 0x02024029,
+  party: 0x02024284,
+  saveBlock1Ptr: 0x03005008,
+  saveBlock1FlagsOffset: 0x0ee0,
+  firstBadgeFlag: 0x820,
+  mapNames: KANTO_MAP_NAMES,
+};
+
+export const ADDRESS_MAPS: Record<GameVersion, AddressMap> = {
+  firered: KANTO_ADDRESSES,
+  leafgreen: KANTO_ADDRESSES,
+  emerald: {
+    partyCount: 0x020244e9,
+    party: 0x020244ec,
+    saveBlock1Ptr: 0x03005d8c,
+    saveBlock1FlagsOffset: 0x1270,
+    firstBadgeFlag: 0x867,
+    mapNames: HOENN_MAP_NAMES,
+  },
+};
+
+// Growth/Attacks/EVs/Misc substructure order, indexed by personality % 24.
+const SUBSTRUCTURE_ORDERS = [
+  "GAEM", "GAME", "GEAM", "GEMA", "GMAE", "GMEA",
+  "AGEM", "AGME", "AEGM", "AEMG", "AMGE", "AMEG",
+  "EGAM", "EGMA", "EAGM", "EAMG", "EMGA", "EMAG",
+  "MGAE", "MGEA", "MAGE", "MAEG", "MEGA", "MEAG",
+];
+
+// Gen 3 stores Hoenn species after 25 unused slots, in a different order
+// from the National Dex. Internal index 277 onward, in internal order:
+const HOENN_INTERNAL_ORDER = [
+  "treecko", "grovyle", "sceptile", "torchic", "combusken", "blaziken",
+  "mudkip", "marshtomp", "swampert", "poochyena", "mightyena", "zigzagoon",
+  "linoone", "wurmple", "silcoon", "beautifly", "cascoon", "dustox", "lotad",
+  "lombre", "ludicolo", "seedot", "nuzleaf", "shiftry", "nincada", "ninjask",
+  "shedinja", "taillow", "swellow", "shroomish", "breloom", "spinda",
+  "wingull", "pelipper", "surskit", "masquerain", "wailmer", "wailord",
+  "skitty", "delcatty", "kecleon", "baltoy", "claydol", "nosepass",
+  "torkoal", "sableye", "barboach", "whiscash", "luvdisc", "corphish",
+  "crawdaunt", "feebas", "milotic", "carvanha", "sharpedo", "trapinch",
+  "vibrava", "flygon", "makuhita", "hariyama", "electrike", "manectric",
+  "numel", "camerupt", "spheal", "sealeo", "walrein", "cacnea", "cacturne",
+  "snorunt", "glalie", "lunatone", "solrock", "azurill", "spoink",
+  "grumpig", "plusle", "minun", "mawile", "meditite", "medicham", "swablu",
+  "altaria", "wynaut", "duskull", "dusclops", "roselia", "slakoth",
+  "vigoroth", "slaking", "gulpin", "swalot", "tropius", "whismur",
+  "loudred", "exploud", "clamperl", "huntail", "gorebyss", "absol",
+  "shuppet", "banette", "seviper", "zangoose", "relicanth", "aron",
+  "lairon", "aggron", "castform", "volbeat", "illumise", "lileep",
+  "cradily", "anorith", "armaldo", "ralts", "kirlia", "gardevoir", "bagon",
+  "shelgon", "salamence", "beldum", "metang", "metagross", "regirock",
+  "regice", "registeel", "kyogre", "groudon", "rayquaza", "latias",
+  "latios", "jirachi", "deoxys", "chimecho",
+];
+
+// ...and National Dex order, starting at #252.
+const HOENN_NATIONAL_ORDER = [
+  "treecko", "grovyle", "sceptile", "torchic", "combusken", "blaziken",
+  "mudkip", "marshtomp", "swampert", "poochyena", "mightyena", "zigzagoon",
+  "linoone", "wurmple", "silcoon", "beautifly", "cascoon", "dustox", "lotad",
+  "lombre", "ludicolo", "seedot", "nuzleaf", "shiftry", "taillow", "swellow",
+  "wingull", "pelipper", "ralts", "kirlia", "gardevoir", "surskit",
+  "masquerain", "shroomish", "breloom", "slakoth", "vigoroth", "slaking",
+  "nincada", "ninjask", "shedinja", "whismur", "loudred", "exploud",
+  "makuhita", "hariyama", "azurill", "nosepass", "skitty", "delcatty",
+  "sableye", "mawile", "aron", "lairon", "aggron", "meditite", "medicham",
+  "electrike", "manectric", "plusle", "minun", "volbeat", "illumise",
+  "roselia", "gulpin", "swalot", "carvanha", "sharpedo", "wailmer",
+  "wailord", "numel", "camerupt", "torkoal", "spoink", "grumpig", "spinda",
+  "trapinch", "vibrava", "flygon", "cacnea", "cacturne", "swablu",
+  "altaria", "zangoose", "seviper", "lunatone", "solrock", "barboach",
+  "whiscash", "corphish", "crawdaunt", "baltoy", "claydol", "lileep",
+  "cradily", "anorith", "armaldo", "feebas", "milotic", "castform",
+  "kecleon", "shuppet", "banette", "duskull", "dusclops", "tropius",
+  "chimecho", "absol", "wynaut", "snorunt", "glalie", "spheal", "sealeo",
+  "walrein", "clamperl", "huntail", "gorebyss", "relicanth", "luvdisc",
+  "bagon", "shelgon", "salamence", "beldum", "metang", "metagross",
+  "regirock", "regice", "registeel", "latias", "latios", "kyogre",
+  "groudon", "rayquaza", "jirachi", "deoxys",
+];
+
+const FIRST_HOENN_INTERNAL = 277;
+const FIRST_HOENN_NATIONAL = 252;
+
+function nationalDexForSpecies(species: number): number | null {
+  if (species >= 1 && species <= 251) {
+    return species;
+  }
+
+  const name = HOENN_INTERNAL_ORDER[species - FIRST_HOENN_INTERNAL];
+  if (name === undefined) {
+    return null;
+  }
+  const index = HOENN_NATIONAL_ORDER.indexOf(name);
+  return index === -1 ? null : FIRST_HOENN_NATIONAL + index;
+}
+
+const PUNCTUATION: Record<number, string> = {
+  0x00: " ",
+  0xab: "!",
+  0xac: "?",
+  0xad: ".",
+  0xae: "-",
+  0xb0: "…",
+  0xb1: "“",
+  0xb2: "”",
+  0xb3: "‘",
+  0xb4: "’",
+  0xb5: "♂",
+  0xb6: "♀",
+  0xb8: ",",
+  0xba: "/",
+};
+
+/** Decodes the Gen 3 Western character set up to the 0xFF terminator. */
+function decodeGameText(bytes: Uint8Array): string {
+  let text = "";
+  for (const byte of bytes) {
+    if (byte === 0xff) {
+      break;
+    }
+    if (byte >= 0xbb && byte <= 0xd4) {
+      text += String.fromCharCode(65 + byte - 0xbb);
+    } else if (byte >= 0xd5 && byte <= 0xee) {
+      text += String.fromCharCode(97 + byte - 0xd5);
+    } else if (byte >= 0xa1 && byte <= 0xaa) {
+      text += String.fromCharCode(48 + byte - 0xa1);
+    } else {
+      text += PUNCTUATION[byte] ?? "";
+    }
+  }
+  return text.trim();
+}
+
+function decodePartyMember(bytes: Uint8Array): PartyMember | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const personality = view.getUint32(0x00, true);
+  const otId = view.getUint32(0x04, true);
+  if (personality === 0 && otId === 0) {
+    return null;
+  }
+
+  const order = SUBSTRUCTURE_ORDERS[personality % 24] ?? "GAEM";
+  const growthOffset = 0x20 + order.indexOf("G") * 12;
+  const key = (personality ^ otId) >>> 0;
+  const species = ((view.getUint32(growthOffset, true) ^ key) >>> 0) & 0xffff;
+  const isEgg = species === SPECIES_EGG;
+
+  return {
+    personality,
+    species,
+    nationalDex: isEgg ? null : nationalDexForSpecies(species),
+    nickname: decodeGameText(bytes.subarray(0x08, 0x12)),
+    level: view.getUint8(0x54),
+    hp: view.getUint16(0x56, true),
+    maxHp: view.getUint16(0x58, true),
+    isEgg,
+  };
+}
+
+/** Reads the cartridge game code; null for anything but FRLG/Emerald. */
+export async function detectGameVersion(
+  memory: MemoryCapability,
+): Promise<GameVersion | null> {
+  const code = new TextDecoder().decode(await memory.readRange(GAME_CODE_ADDRESS, 4));
+  return GAME_CODES[code] ?? null;
+}
+
+export async function readGameState(
+  memory: MemoryCapability,
+  game: GameVersion,
+): Promise<GameState> {
+  const addresses = ADDRESS_MAPS[game];
+  const [partyCount, partyBytes, saveBlock1] = await Promise.all([
+    memory.read8(addresses.partyCount),
+    memory.readRange(addresses.party, PARTY_SIZE * PARTY_MON_SIZE),
+    memory.read32(addresses.saveBlock1Ptr),
+  ]);
+
+  const firstBadgeByte = Math.floor(addresses.firstBadgeFlag / 8);
+  const lastBadgeByte = Math.floor((addresses.firstBadgeFlag + BADGE_COUNT - 1) / 8);
+  const [location, flagBytes] = await Promise.all([
+    memory.readRange(saveBlock1 + 0x04, 2),
+    memory.readRange(
+      saveBlock1 + addresses.saveBlock1FlagsOffset + firstBadgeByte,
+      lastBadgeByte - firstBadgeByte + 1,
+    ),
+  ]);
+
+  const party: PartyMember[] = [];
+  for (let slot = 0; slot < Math.min(partyCount, PARTY_SIZE); slot += 1) {
+    const member = decodePartyMember(
+      partyBytes.subarray(slot * PARTY_MON_SIZE, (slot + 1) * PARTY_MON_SIZE),
+    );
+    if (member) {
+      party.push(member);
+    }
+  }
+
+  const badges = Array.from({ length: BADGE_COUNT }, (_, index) => {
+    const flag = addresses.firstBadgeFlag + index;
+    const byte = flagBytes[Math.floor(flag / 8) - firstBadgeByte] ?? 0;
+    return (byte & (1 << flag % 8)) !== 0;
+  });
+
+  // mapGroup and mapNum are signed bytes in WarpData.
+  const mapGroup = ((location[0] ?? 0) << 24) >> 24;
+  const mapNum = ((location[1] ?? 0) << 24) >> 24;
+
+  return {
+    game,
+    party,
+    location: {
+      mapGroup,
+      mapNum,
+      name: addresses.mapNames[`${mapGroup}.${mapNum}`] ?? null,
+    },
+    badges,
+    badgeCount: badges.filter(Boolean).length,
+    polledAt: Date.now(),
+  };
+}
+
+function memberLabel(member: PartyMember): string {
+  return member.nickname.length > 0 ? member.nickname : `#${member.nationalDex ?? member.species}`;
+}
+
+function isWhitedOut(state: GameState): boolean {
+  const battlers = state.party.filter((member) => !member.isEgg);
+  return battlers.length > 0 && battlers.every((member) => member.hp === 0);
+}
+
+/** Milestones implied by going from `previous` to `next`; empty on the first poll. */
+export function diffGameStates(previous: GameState | null, next: GameState): Milestone[] {
+  if (!previous || previous.game !== next.game) {
+    return [];
+  }
+
+  const milestones: Milestone[] = [];
+  const push = (kind: MilestoneKind, message: string): void => {
+    milestones.push({
+      id: `${next.polledAt}-${milestones.length}`,
+      kind,
+      message,
+      createdAt: next.polledAt,
+    });
+  };
+
+  for (const [index, earned] of next.badges.entries()) {
+    if (earned && !previous.badges[index]) {
+      push("badge", `Badge ${index + 1} earned! (${next.badgeCount}/${BADGE_COUNT})`);
+    }
+  }
+
+  // A party that went from empty to full is a load or a new game, not a catch.
+  if (previous.party.length > 0) {
+    const known = new Set(previous.party.map((member) => member.personality));
+    for (const member of next.party) {
+      if (!known.has(member.personality)) {
+        push(
+          "party_member",
+          member.isEgg ? "An egg joined the party!" : `${memberLabel(member)} joined the party!`,
+        );
+      }
+    }
+  }
+
+  if (isWhitedOut(next) && !isWhitedOut(previous)) {
+    push("whiteout", "The party whited out!");
+  }
+
+  return milestones;
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, spyOn, test } from "bun:test";
+import { IdentityResolver, type IdentityResolverOptions } from "./identity-resolver.ts";
+
+const DID = "did:plc:alice";
+
+function notFound(hostname: string): Promise<string[][]> {
+  return Promise.reject(Object.assign(new Error(`no TXT record for ${hostname}`), { code: "ENOTFOUND" }));
+}
+
+/** A resolver whose Slingshot is down, answering the rest from `routes` keyed by host and path. */
+function resolver(
+  routes: Record<string, unknown>,
+  overrides: Partial<IdentityResolverOptions> = {},
+): IdentityResolver {
+  return new IdentityResolver({
+    slingshotUrl: "https://slingshot.test",
+    plcUrl: "https://plc.test",
+    cacheFile: "",
+    timeoutMs: 1000,
+    maxConcurrent: 4,
+    breakerFailures: 100,
+    breakerResetMs: 1000,
+    settings: { ttlMs: 60_000, maxStaleMs: 120_000 },
+    resolveTxt: notFound,
+    fetch: async (url) => {
+      if (url.host === "slingshot.test") {
+        return new Response("down", { status: 503 });
+      }
+      const body = routes[`${url.host}${decodeURIComponent(url.pathname)}`];
+      if (body === undefined) {
+        return new Response("missing", { status: 404 });
+      }
+      return typeof body === "string" ? new Response(body) : Response.json(body);
+    },
+    ...overrides,
+  });
+}
+
+function didDocument(handle: string) {
+  return {
+    id: DID,
+    alsoKnownAs: [`at://${handle}`],
+    service: [{ id: "#atproto_pds", type: "AtprotoPersonalDataServer", serviceEndpoint: "https://pds.test" }],
+  };
+}
+
+const profile = { value: { displayName: "Alice" } };
+
+let consoleError: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  // Every lookup logs that Slingshot is down.
+  consoleError = spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  consoleError.mockRestore();
+  setSystemTime();
+});
+
+describe("IdentityResolver", () => {
+  test("falls back to the DID document and verifies the handle over HTTPS", async () => {
+    const identities = resolver({
+      [`plc.test/${DID}`]: didDocument("alice.test"),
+      "alice.test/.well-known/atproto-did": `${DID}\n`,
+      "pds.test/xrpc/com.atproto.repo.getRecord": profile,
+    });
+    expect(await identities.resolve(DID)).toEqual({ did: DID, handle: "alice.test", displayName: "Alice" });
+  });
+
+  test("verifies the handle over DNS", async () => {
+    const identities = resolver(
+      { [`plc.test/${DID}`]: didDocument("alice.test") },
+      {
+        resolveTxt: (hostname) =>
+          hostname === "_atproto.alice.test" ? Promise.resolve([[`did=${DID}`]]) : notFound(hostname),
+      },
+    );
+    expect((await identities.resolve(DID))?.handle).toBe("alice.test");
+  });
+
+  test("drops a handle that points at another DID", async () => {
+    const identities = resolver({
+      [`plc.test/${DID}`]: didDocument("bob.test"),
+      "bob.test/.well-known/atproto-did": "did:plc:bob",
+      "pds.test/xrpc/com.atproto.repo.getRecord": profile,
+    });
+    expect(await identities.resolve(DID)).toEqual({ did: DID, handle: undefined, displayName: "Alice" });
+  });
+
+  test("finds the PDS in the DID document when Slingshot is down", async () => {
+    const identities = resolver({ [`plc.test/${DID}`]: didDocument("alice.test") });
+    expect(await identities.resolvePds(DID)).toBe("https://pds.test");
+    expect(await identities.resolvePds("did:plc:nobody")).toBeNull();
+  });
+
+  test("waits out the retry window after a DID fails to resolve", async () => {
+    const identities = resolver({});
+    setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    expect(await identities.resolve(DID)).toBeNull();
+    expect(identities.shouldResolve(DID)).toBe(false);
+
+    setSystemTime(new Date("2024-01-01T00:01:00Z"));
+    expect(identities.shouldResolve(DID)).toBe(true);
+  });
+});
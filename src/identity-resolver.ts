@@ -0,0 +1,591 @@
+import { Resolver } from "node:dns/promises";
+import { CircuitBreaker, CircuitOpenError } from "./circuit-breaker.ts";
+
+/** Identities kept in memory and on disk; the least recently fetched go first. */
+const MAX_CACHED_IDENTITIES = 10_000;
+const CACHE_SAVE_DELAY_MS = 5000;
+/** How long a DID that failed to resolve waits before it is tried again. */
+const FAILED_RETRY_MS = 60_000;
+const PROFILE_COLLECTION = "app.bsky.actor.profile";
+/** DNS answers that mean there is no record, rather than that DNS is failing. */
+const DNS_MISSING_CODES = new Set(["ENOTFOUND", "ENODATA", "NOTFOUND", "NODATA"]);
+
+export interface ResolvedIdentity {
+  did: string;
+  handle?: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export type IdentityUpstream = "slingshot" | "plc" | "did_web" | "pds" | "handle_dns" | "handle_https";
+export type IdentityRequestResult = "success" | "not_found" | "failure" | "skipped";
+
+export interface IdentityResolverSettings {
+  /** Age after which a cached identity is refreshed in the background. */
+  ttlMs: number;
+  /** Age after which a cached identity is no longer shown while it refreshes. */
+  maxStaleMs: number;
+}
+
+export interface IdentityResolverOptions {
+  slingshotUrl: string;
+  /** PLC directory that serves `did:plc` documents. */
+  plcUrl: string;
+  /** Where the cache is persisted; empty keeps it in memory only. */
+  cacheFile: string;
+  /** Limit on each upstream request. */
+  timeoutMs: number;
+  /** DIDs resolved at once; the rest wait their turn. */
+  maxConcurrent: number;
+  /** Failures in a row that stop requests to an upstream host for `breakerResetMs`. */
+  breakerFailures: number;
+  breakerResetMs: number;
+  settings: IdentityResolverSettings;
+  /** Called once per upstream request, for metrics. */
+  onRequest?: (upstream: IdentityUpstream, result: IdentityRequestResult) => void;
+  /** Stands in for `fetch`, e.g. to answer handle and PDS requests in tests. */
+  fetch?: (url: URL, init: RequestInit) => Promise<Response>;
+  /** Stands in for DNS TXT lookups of `_atproto.<handle>`. */
+  resolveTxt?: (hostname: string) => Promise<string[][]>;
+}
+
+export interface CachedIdentity {
+  identity: ResolvedIdentity;
+  /** Older than `ttlMs`, so it should be refreshed. */
+  stale: boolean;
+}
+
+interface CacheEntry {
+  identity: ResolvedIdentity;
+  fetchedAt: number;
+}
+
+interface DidDocument {
+  handle?: string;
+  pds?: string;
+}
+
+interface Profile {
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function extractAvatarUrl(did: string, profileValue: Record<string, unknown>): string | undefined {
+  const avatar = isObject(profileValue.avatar) ? profileValue.avatar : null;
+  const ref = avatar && isObject(avatar.ref) ? avatar.ref : null;
+  const link = ref?.$link;
+  if (typeof link !== "string" || link.length === 0) {
+    return undefined;
+  }
+
+  return `https://cdn.bsky.app/img/avatar/plain/${did}/${link}@jpeg`;
+}
+
+function parseProfile(did: string, payload: unknown): Profile {
+  const value = isObject(payload) && isObject(payload.value) ? payload.value : null;
+  if (!value) {
+    return {};
+  }
+  return { displayName: nonEmpty(value.displayName), avatarUrl: extractAvatarUrl(did, value) };
+}
+
+/** The handle and PDS a DID document claims; the handle still has to be verified. */
+function parseDidDocument(payload: unknown): DidDocument {
+  if (!isObject(payload)) {
+    return {};
+  }
+  const aliases = Array.isArray(payload.alsoKnownAs) ? payload.alsoKnownAs : [];
+  const alias = aliases.find((entry): entry is string => typeof entry === "string" && entry.startsWith("at://"));
+  const services = Array.isArray(payload.service) ? payload.service : [];
+  const pds = services.find(
+    (service) => isObject(service) && typeof service.id === "string" && service.id.endsWith("#atproto_pds"),
+  );
+  return {
+    handle: alias ? nonEmpty(alias.slice("at://".length)) : undefined,
+    pds: isObject(pds) ? nonEmpty(pds.serviceEndpoint) : undefined,
+  };
+}
+
+/** Where a `did:web` document lives, e.g. `did:web:example.com:alice` → `https://example.com/alice/did.json`. */
+function didWebUrl(did: string): URL | null {
+  const [host, ...path] = did.slice("did:web:".length).split(":").map(decodeURIComponent);
+  if (!host) {
+    return null;
+  }
+  try {
+    return new URL(
+      path.length > 0 ? `https://${host}/${path.join("/")}/did.json` : `https://${host}/.well-known/did.json`,
+    );
+  } catch {
+    return null;
+  }
+}
+
+function profileUrl(base: string, did: string): URL {
+  const url = new URL("/xrpc/com.atproto.repo.getRecord", base);
+  url.searchParams.set("repo", did);
+  url.searchParams.set("collection", PROFILE_COLLECTION);
+  url.searchParams.set("rkey", "self");
+  return url;
+}
+
+/**
+ * Turns DIDs into handles, display names and avatars. Slingshot is asked
+ * first; when it is down the DID document is fetched from the PLC directory
+ * (or the `did:web` host), its handle is checked against DNS or the handle's
+ * `/.well-known/atproto-did`, and the profile comes from the user's PDS.
+ *
+ * Results are cached and saved to `cacheFile`. An entry older than `ttlMs` is
+ * still served while it refreshes, until it is `maxStaleMs` old. Each upstream
+ * host has its own circuit breaker, and at most `maxConcurrent` DIDs resolve
+ * at once, so a slow upstream can't pile up requests.
+ */
+export class IdentityResolver {
+  private settings: IdentityResolverSettings;
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<ResolvedIdentity | null>>();
+  private readonly failedAt = new Map<string, number>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly resolveTxt: (hostname: string) => Promise<string[][]>;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: IdentityResolverOptions) {
+    this.settings = options.settings;
+    if (options.resolveTxt) {
+      this.resolveTxt = options.resolveTxt;
+    } else {
+      const dns = new Resolver({ timeout: options.timeoutMs, tries: 1 });
+      this.resolveTxt = (hostname) => dns.resolveTxt(hostname);
+    }
+  }
+
+  configure(settings: IdentityResolverSettings): void {
+    this.settings = settings;
+  }
+
+  /** Reads the saved cache, dropping entries past `maxStaleMs`. Returns how many were kept. */
+  async load(): Promise<number> {
+    const { cacheFile } = this.options;
+    if (cacheFile.length === 0) {
+      return 0;
+    }
+    const file = Bun.file(cacheFile);
+    if (!(await file.exists())) {
+      return 0;
+    }
+
+    try {
+      const payload = (await file.json()) as unknown;
+      const entries = isObject(payload) && Array.isArray(payload.identities) ? payload.identities : [];
+      const oldest = Date.now() - this.settings.maxStaleMs;
+      for (const entry of entries) {
+        if (!isObject(entry) || typeof entry.did !== "string" || typeof entry.fetchedAt !== "number") {
+          continue;
+        }
+        if (entry.fetchedAt < oldest) {
+          continue;
+        }
+        this.store(
+          {
+            did: entry.did,
+            handle: nonEmpty(entry.handle),
+            displayName: nonEmpty(entry.displayName),
+            avatarUrl: nonEmpty(entry.avatarUrl),
+          },
+          entry.fetchedAt,
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to read identity cache from ${cacheFile}:`, error);
+    }
+    return this.cache.size;
+  }
+
+  /** The cached identity for `did`, unless it is missing or past `maxStaleMs`. */
+  peek(did: string): CachedIdentity | null {
+    const entry = this.cache.get(did);
+    if (!entry) {
+      return null;
+    }
+    const age = Date.now() - entry.fetchedAt;
+    if (age > this.settings.maxStaleMs) {
+      return null;
+    }
+    return { identity: entry.identity, stale: age > this.settings.ttlMs };
+  }
+
+  cached(did: string): ResolvedIdentity | null {
+    return this.peek(did)?.identity ?? null;
+  }
+
+  /** Caches an identity a chat source sent along with the message. */
+  remember(identity: ResolvedIdentity): void {
+    this.store(identity, Date.now());
+    this.failedAt.delete(identity.did);
+    this.scheduleSave();
+  }
+
+  /** False while `did` is being resolved or shortly after it failed to. */
+  shouldResolve(did: string): boolean {
+    if (this.pending.has(did)) {
+      return false;
+    }
+    const failed = this.failedAt.get(did);
+    if (failed === undefined) {
+      return true;
+    }
+    if (Date.now() - failed < FAILED_RETRY_MS) {
+      return false;
+    }
+    this.failedAt.delete(did);
+    return true;
+  }
+
+  /**
+   * Fetches `did`'s identity and caches it. Resolves to null when no upstream
+   * knows the DID and rejects when none could be reached.
+   */
+  resolve(did: string): Promise<ResolvedIdentity | null> {
+    const existing = this.pending.get(did);
+    if (existing) {
+      return existing;
+    }
+
+    const lookup = this.withSlot(() => this.lookup(did))
+      .then((identity) => {
+        if (identity) {
+          this.failedAt.delete(did);
+          this.store(identity, Date.now());
+          this.scheduleSave();
+        } else {
+          this.noteFailure(did, Date.now());
+        }
+        return identity;
+      })
+      .catch((error: unknown) => {
+        this.noteFailure(did, Date.now());
+        throw error;
+      })
+      .finally(() => {
+        this.pending.delete(did);
+      });
+    this.pending.set(did, lookup);
+    return lookup;
+  }
+
+  /** The DID behind `handle`, from the cache, Slingshot, or the handle's own DNS or web server. */
+  async resolveHandle(handle: string): Promise<string | null> {
+    const wanted = handle.toLowerCase();
+    for (const [did, entry] of this.cache) {
+      if (entry.identity.handle?.toLowerCase() === wanted) {
+        return did;
+      }
+    }
+
+    const url = new URL("/xrpc/blue.microcosm.identity.resolveMiniDoc", this.options.slingshotUrl);
+    url.searchParams.set("identifier", wanted);
+    try {
+      const payload = await this.request("slingshot", url, (response) => response.json());
+      return isObject(payload) && typeof payload.did === "string" ? payload.did : null;
+    } catch (error) {
+      if (!(error instanceof CircuitOpenError)) {
+        console.error(
+          `Slingshot could not resolve handle ${wanted}; asking its domain instead:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    return this.handleToDid(wanted);
+  }
+
+  /**
+   * The PDS hosting `did`'s repo, from Slingshot or else the DID document.
+   * Null when neither names one; rejects when neither could be reached.
+   */
+  async resolvePds(did: string): Promise<string | null> {
+    const url = new URL("/xrpc/blue.microcosm.identity.resolveMiniDoc", this.options.slingshotUrl);
+    url.searchParams.set("identifier", did);
+    try {
+      const payload = await this.request("slingshot", url, (response) => response.json());
+      const pds = isObject(payload) ? nonEmpty(payload.pds) : undefined;
+      if (pds) {
+        return pds;
+      }
+    } catch (error) {
+      if (!(error instanceof CircuitOpenError)) {
+        console.error(
+          `Slingshot could not find the PDS for ${did}; using its DID document instead:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    return (await this.didDocument(did))?.pds ?? null;
+  }
+
+  /** Every upstream host seen so far and whether its breaker is open. */
+  breakerStates(): Array<{ host: string; open: boolean }> {
+    return [...this.breakers].map(([host, breaker]) => ({ host, open: breaker.open }));
+  }
+
+  private async lookup(did: string): Promise<ResolvedIdentity | null> {
+    try {
+      return await this.fromSlingshot(did);
+    } catch (error) {
+      if (!(error instanceof CircuitOpenError)) {
+        console.error(
+          `Slingshot could not resolve ${did}; using its DID document instead:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    return this.fromDidDocument(did);
+  }
+
+  /** Throws when Slingshot can't be reached, so the caller can fall back. */
+  private async fromSlingshot(did: string): Promise<ResolvedIdentity | null> {
+    const docUrl = new URL("/xrpc/blue.microcosm.identity.resolveMiniDoc", this.options.slingshotUrl);
+    docUrl.searchParams.set("identifier", did);
+
+    const [docResult, profileResult] = await Promise.allSettled([
+      this.request("slingshot", docUrl, (response) => response.json()),
+      this.request("slingshot", profileUrl(this.options.slingshotUrl, did), (response) => response.json()),
+    ]);
+    if (docResult.status === "rejected") {
+      throw docResult.reason;
+    }
+
+    const doc = isObject(docResult.value) ? docResult.value : {};
+    let profile: Profile = {};
+    if (profileResult.status === "fulfilled") {
+      profile = parseProfile(did, profileResult.value);
+    } else {
+      // Slingshot knows the PDS even when its record cache is failing.
+      const pds = nonEmpty(doc.pds);
+      profile = pds ? await this.fetchProfile(did, pds) : {};
+    }
+
+    return this.build(did, nonEmpty(doc.handle), profile);
+  }
+
+  private async fromDidDocument(did: string): Promise<ResolvedIdentity | null> {
+    const doc = await this.didDocument(did);
+    if (!doc) {
+      return null;
+    }
+    const [handle, profile] = await Promise.all([
+      doc.handle ? this.verifyHandle(doc.handle, did) : undefined,
+      doc.pds ? this.fetchProfile(did, doc.pds) : {},
+    ]);
+    return this.build(did, handle, profile);
+  }
+
+  /** `did`'s document from the PLC directory or its `did:web` host; null when there is none. */
+  private async didDocument(did: string): Promise<DidDocument | null> {
+    let url: URL | null = null;
+    let upstream: IdentityUpstream;
+    if (did.startsWith("did:plc:")) {
+      url = new URL(`/${encodeURIComponent(did)}`, this.options.plcUrl);
+      upstream = "plc";
+    } else if (did.startsWith("did:web:")) {
+      url = didWebUrl(did);
+      upstream = "did_web";
+    } else {
+      return null;
+    }
+    if (!url) {
+      return null;
+    }
+
+    const payload = await this.request(upstream, url, (response) => response.json());
+    return payload === null ? null : parseDidDocument(payload);
+  }
+
+  /** `handle` when it points back at `did`; a document can claim any handle. */
+  private async verifyHandle(handle: string, did: string): Promise<string | undefined> {
+    try {
+      return (await this.handleToDid(handle)) === did ? handle : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async fetchProfile(did: string, pds: string): Promise<Profile> {
+    try {
+      return parseProfile(did, await this.request("pds", profileUrl(pds, did), (response) => response.json()));
+    } catch {
+      return {};
+    }
+  }
+
+  private async handleToDid(handle: string): Promise<string | null> {
+    const fromDns = await this.guard("handle_dns", "dns", async () => {
+      try {
+        const records = await this.resolveTxt(`_atproto.${handle}`);
+        const record = records.map((chunks) => chunks.join("")).find((text) => text.startsWith("did="));
+        return record ? record.slice("did=".length) : null;
+      } catch (error) {
+        const code = isObject(error) && typeof error.code === "string" ? error.code : "";
+        if (DNS_MISSING_CODES.has(code)) {
+          return null;
+        }
+        throw error;
+      }
+    }).catch(() => null);
+    if (fromDns) {
+      return fromDns;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(`https://${handle}/.well-known/atproto-did`);
+    } catch {
+      return null;
+    }
+    const text = await this.request("handle_https", url, (response) => response.text());
+    const did = text?.trim();
+    return did?.startsWith("did:") ? did : null;
+  }
+
+  private build(did: string, handle: string | undefined, profile: Profile): ResolvedIdentity | null {
+    if (!handle && !profile.displayName && !profile.avatarUrl) {
+      return null;
+    }
+    return { did, handle, ...profile };
+  }
+
+  /** GETs `url`, resolving to null on a 4xx; a 5xx, 429 or timeout counts against the host's breaker. */
+  private request<T>(
+    upstream: IdentityUpstream,
+    url: URL,
+    read: (response: Response) => Promise<T>,
+  ): Promise<T | null> {
+    return this.guard(upstream, url.host, async () => {
+      const response = await (this.options.fetch ?? fetch)(url, {
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(`${url.host} returned ${response.status}`);
+      }
+      if (!response.ok) {
+        return null;
+      }
+      return read(response);
+    });
+  }
+
+  private async guard<T>(
+    upstream: IdentityUpstream,
+    host: string,
+    task: () => Promise<T | null>,
+  ): Promise<T | null> {
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: this.options.breakerFailures,
+        resetMs: this.options.breakerResetMs,
+      });
+      this.breakers.set(host, breaker);
+    }
+    if (!breaker.allows(Date.now())) {
+      this.options.onRequest?.(upstream, "skipped");
+      throw new CircuitOpenError(host);
+    }
+
+    let result: T | null;
+    try {
+      result = await task();
+    } catch (error) {
+      this.options.onRequest?.(upstream, "failure");
+      if (breaker.fail(Date.now())) {
+        console.error(
+          `Identity upstream ${host} failed ${this.options.breakerFailures} times in a row; ` +
+            `pausing requests for ${this.options.breakerResetMs}ms`,
+        );
+      }
+      throw error;
+    }
+    if (breaker.open) {
+      console.log(`Identity upstream ${host} is answering again`);
+    }
+    breaker.succeed();
+    this.options.onRequest?.(upstream, result === null ? "not_found" : "success");
+    return result;
+  }
+
+  /** Runs `task` once fewer than `maxConcurrent` lookups are in flight. */
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active += 1;
+    } else {
+      // A finishing lookup hands its slot straight to the next one.
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active -= 1;
+      }
+    }
+  }
+
+  private store(identity: ResolvedIdentity, fetchedAt: number): void {
+    // Re-inserting keeps the map in fetch order, so the oldest entry is first.
+    this.cache.delete(identity.did);
+    this.cache.set(identity.did, { identity, fetchedAt });
+    for (const did of this.cache.keys()) {
+      if (this.cache.size <= MAX_CACHED_IDENTITIES) {
+        break;
+      }
+      this.cache.delete(did);
+    }
+  }
+
+  /**
+   * Notes that `did` failed to resolve, forgetting failures whose retry window
+   * has passed so DIDs that are never seen again don't pile up.
+   */
+  private noteFailure(did: string, now: number): void {
+    // Re-inserting keeps the map in failure order, so the oldest entry is first.
+    this.failedAt.delete(did);
+    this.failedAt.set(did, now);
+    for (const [failedDid, failed] of this.failedAt) {
+      if (now - failed < FAILED_RETRY_MS && this.failedAt.size <= MAX_CACHED_IDENTITIES) {
+        break;
+      }
+      this.failedAt.delete(failedDid);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.options.cacheFile.length === 0 || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, CACHE_SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const identities = [...this.cache.values()].map(({ identity, fetchedAt }) => ({ ...identity, fetchedAt }));
+    try {
+      await Bun.write(this.options.cacheFile, `${JSON.stringify({ identities })}\n`);
+    } catch (error) {
+      console.error(`Failed to save identity cache to ${this.options.cacheFile}:`, error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { InputLog, inputLogPath, type InputLogEntry } from "./input-log.ts";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "input-log-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function entry(command: string): InputLogEntry {
+  return {
+    timestamp: "2024-01-01T00:00:00.000Z",
+    did: "did:plc:test",
+    command,
+    durationMs: 80,
+    outcome: "done",
+    frame: null,
+  };
+}
+
+async function commands(generation: number): Promise<string[]> {
+  const text = await readFile(inputLogPath(dir, generation), "utf8");
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => (JSON.parse(line) as InputLogEntry).command);
+}
+
+describe("InputLog", () => {
+  test("appends one JSON line per entry, in order", async () => {
+    const log = new InputLog({ dir: join(dir, "nested"), maxBytes: 1_000_000, maxFiles: 3 });
+    void log.append(entry("a"));
+    void log.append(entry("b"));
+    await log.append(entry("up"));
+    const text = await readFile(inputLogPath(join(dir, "nested")), "utf8");
+    expect(text.trim().split("\n").map((line) => (JSON.parse(line) as InputLogEntry).command)).toEqual([
+      "a",
+      "b",
+      "up",
+    ]);
+  });
+
+  test("rotates before a file would pass maxBytes and keeps at most maxFiles", async () => {
+    const lineBytes = Buffer.byteLength(`${JSON.stringify(entry("a"))}\n`);
+    const log = new InputLog({ dir, maxBytes: lineBytes * 2, maxFiles: 3 });
+    for (const command of ["a", "b", "l", "r", "u", "d"]) {
+      await log.append(entry(command));
+    }
+
+    expect((await readdir(dir)).sort()).toEqual(["inputs.1.jsonl", "inputs.2.jsonl", "inputs.jsonl"]);
+    expect(await commands(2)).toEqual(["a", "b"]);
+    expect(await commands(1)).toEqual(["l", "r"]);
+    expect(await commands(0)).toEqual(["u", "d"]);
+
+    await log.append(entry("x"));
+    expect(await commands(2)).toEqual(["l", "r"]);
+    expect(await commands(0)).toEqual(["x"]);
+  });
+
+  test("counts an existing file toward the limit", async () => {
+    const lineBytes = Buffer.byteLength(`${JSON.stringify(entry("a"))}\n`);
+    await new InputLog({ dir, maxBytes: 1_000_000, maxFiles: 2 }).append(entry("a"));
+    await new InputLog({ dir, maxBytes: lineBytes, maxFiles: 2 }).append(entry("b"));
+    expect(await commands(1)).toEqual(["a"]);
+    expect(await commands(0)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { appendFile, mkdir, rename, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+
+export type InputOutcome = "done" | "error" | "retry";
+
+export interface InputLogEntry {
+  timestamp: string;
+  /** Set for inputs sent to a channel other than the main one. */
+  channel?: string;
+  did: string;
+  command: string;
+  durationMs: number;
+  outcome: InputOutcome;
+  frame: number | null;
+  votes?: number;
+  error?: string;
+}
+
+export interface InputLogOptions {
+  dir: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+const LOG_BASENAME = "inputs";
+
+export function inputLogPath(dir: string, generation = 0): string {
+  return join(dir, generation === 0 ? `${LOG_BASENAME}.jsonl` : `${LOG_BASENAME}.${generation}.jsonl`);
+}
+
+/**
+ * Append-only JSONL log of dispatched inputs. Once `inputs.jsonl` would grow
+ * past `maxBytes` it is shifted to `inputs.1.jsonl` (and so on), keeping at
+ * most `maxFiles` files. Writes are serialized so lines never interleave.
+ */
+export class InputLog {
+  private pending: Promise<void> = Promise.resolve();
+  private size: number | null = null;
+
+  constructor(private readonly options: InputLogOptions) {}
+
+  append(entry: InputLogEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.pending = this.pending
+      .then(() => this.write(line))
+      .catch((error) => {
+        console.error("Failed to append to input log:", error);
+      });
+    return this.pending;
+  }
+
+  private async write(line: string): Promise<void> {
+    const path = inputLogPath(this.options.dir);
+    if (this.size === null) {
+      await mkdir(this.options.dir, { recursive: true });
+      this.size = await stat(path).then(
+        (info) => info.size,
+        () => 0,
+      );
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+
+    await appendFile(path, line, "utf8");
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const { dir, maxFiles } = this.options;
+    await rm(inputLogPath(dir, maxFiles - 1), { force: true });
+    for (let generation = maxFiles - 2; generation >= 0; generation -= 1) {
+      await rename(inputLogPath(dir, generation), inputLogPath(dir, generation + 1)).catch(
+        () => undefined,
+      );
+    }
+  }
+}
@@ -0,0 +1,563 @@
+import { JetstreamSubscription, type CommitOperation, type JetstreamEvent } from "@atcute/jetstream";
+import type {
+  ChatEvent,
+  ChatIdentityHint,
+  ChatReplyRef,
+  ChatSource,
+  ChatSourceState,
+  StrongRef,
+} from "./chat-source.ts";
+
+const CHAT_COLLECTION = "place.stream.chat.message";
+const BLOCK_COLLECTION = "app.bsky.graph.block";
+/** Streamplace writes one of these to the streamer's repo for every hidden message. */
+const GATE_COLLECTION = "place.stream.chat.gate";
+const MODERATION_PAGE_SIZE = 100;
+const MAX_MODERATION_PAGES = 20;
+const MODERATION_FETCH_TIMEOUT_MS = 5000;
+/**
+ * How often each streamer's blocks are re-read from their PDS. Streaming
+ * `app.bsky.graph.block` would deliver every block on the network to keep a
+ * few streamers' own.
+ */
+const BLOCK_POLL_INTERVAL_MS = 60_000;
+const MAX_SEEN_MESSAGES = 5000;
+const CURSOR_SAVE_DELAY_MS = 1000;
+const LAG_WARNING_MS = 10_000;
+const LAG_WARNING_INTERVAL_MS = 30_000;
+
+export interface JetstreamChatSourceOptions {
+  url: string;
+  /** Every streamer whose chat is followed; events carry which one they belong to. */
+  streamerDids: string[];
+  /** Where the `time_us` cursor is persisted; empty disables resuming. */
+  cursorFile: string;
+  maxLookbackMs: number;
+  /** Finds each streamer's PDS, where their blocks and hidden messages are read. */
+  resolvePds: (did: string) => Promise<string | null>;
+  /** Stands in for `fetch` when listing those records, e.g. in tests. */
+  fetch?: (url: URL, init: RequestInit) => Promise<Response>;
+}
+
+interface RepoRecord {
+  rkey: string;
+  value: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function readFirstNonEmptyString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function readMessageText(record: Record<string, unknown>): string | undefined {
+  const candidates = [
+    record.text,
+    record.message,
+    record.body,
+    record.content,
+    typeof record.msg === "string" ? record.msg : undefined,
+  ];
+
+  for (const value of candidates) {
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+function readStrongRef(value: unknown): StrongRef | undefined {
+  if (!isObject(value) || typeof value.uri !== "string" || typeof value.cid !== "string") {
+    return undefined;
+  }
+  return { uri: value.uri, cid: value.cid };
+}
+
+/** Replies to `self` stay in the thread `record` already belongs to, if any. */
+function replyRefFor(self: StrongRef, record: Record<string, unknown>): ChatReplyRef {
+  const reply = isObject(record.reply) ? record.reply : undefined;
+  return { root: readStrongRef(reply?.root) ?? self, parent: self };
+}
+
+/** `at://<did>/place.stream.chat.message/<rkey>` to the `<did>/<rkey>` message id used here. */
+function messageIdFromUri(uri: unknown): string | undefined {
+  if (typeof uri !== "string") {
+    return undefined;
+  }
+  const match = /^at:\/\/([^/]+)\/([^/]+)\/([^/]+)$/.exec(uri);
+  if (!match || match[2] !== CHAT_COLLECTION) {
+    return undefined;
+  }
+  return `${match[1]}/${match[3]}`;
+}
+
+function readIdentityHint(record: Record<string, unknown>): ChatIdentityHint | undefined {
+  const handle = readFirstNonEmptyString(record.handle, record.username, record.userHandle);
+  const displayName = readFirstNonEmptyString(
+    record.displayName,
+    record.name,
+    record.user,
+    record.sender,
+    record.author,
+  );
+  const avatarUrl = readFirstNonEmptyString(
+    record.avatarUrl,
+    record.avatar,
+    record.pfp,
+    record.profileImage,
+  );
+
+  if (!handle && !displayName && !avatarUrl) {
+    return undefined;
+  }
+
+  return { handle, displayName, avatarUrl };
+}
+
+/** The map for `key` in `maps`, created on first use. */
+function mapFor<V>(maps: Map<string, Map<string, V>>, key: string): Map<string, V> {
+  let map = maps.get(key);
+  if (!map) {
+    map = new Map();
+    maps.set(key, map);
+  }
+  return map;
+}
+
+/**
+ * `place.stream.chat.message` records addressed to any of `streamerDids`, over
+ * one Jetstream subscription.
+ *
+ * The `time_us` cursor is saved to `cursorFile` and resumed on startup, but
+ * never further back than `maxLookbackMs`. Messages are de-duplicated on
+ * DID + rkey, so a reconnect that replays events never delivers a message
+ * twice, and `update`/`delete` commits become edit/delete events.
+ *
+ * Each streamer's own moderation is followed too: their `app.bsky.graph.block`
+ * records become block events, and messages hidden through
+ * `place.stream.chat.gate` become delete events. Both are loaded from the
+ * streamer's PDS on startup, alongside the subscription so a slow PDS doesn't
+ * hold up chat. Gates are then kept current from the subscription, and blocks
+ * by re-reading them every `BLOCK_POLL_INTERVAL_MS`.
+ */
+export class JetstreamChatSource implements ChatSource {
+  readonly name = "jetstream";
+  private readonly streamers: ReadonlySet<string>;
+  /** Delivered message id to the streamer it was addressed to. */
+  private readonly seen = new Map<string, string>();
+  /** Per streamer, the DIDs their last-read block records name. */
+  private readonly blocked = new Map<string, Set<string>>();
+  /** Per streamer, their PDS once it is known. */
+  private readonly pdsByStreamer = new Map<string, string>();
+  private blockPollTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Per streamer, gate rkey to hidden message id. */
+  private readonly hiddenByGate = new Map<string, Map<string, string>>();
+  private readonly hiddenMessages = new Set<string>();
+  private cursor: number | null = null;
+  private cursorSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastLagWarningAt = 0;
+  private current: ChatSourceState = {
+    status: "connecting",
+    lastEventAt: null,
+    lagMs: null,
+    lastError: null,
+  };
+
+  constructor(private readonly options: JetstreamChatSourceOptions) {
+    this.streamers = new Set(options.streamerDids);
+  }
+
+  get state(): ChatSourceState {
+    return { ...this.current };
+  }
+
+  async *events(): AsyncIterable<ChatEvent> {
+    let moderation = this.loadModeration();
+    const resumeCursor = await this.loadCursor();
+    const subscription = new JetstreamSubscription({
+      url: this.options.url,
+      cursor: resumeCursor ?? undefined,
+      wantedCollections: [CHAT_COLLECTION, GATE_COLLECTION],
+      onConnectionOpen: () => {
+        const behind =
+          this.cursor === null ? "live" : `${Math.round(Date.now() - this.cursor / 1000)}ms behind`;
+        console.log(`Jetstream connected to ${this.options.url} (${behind})`);
+        this.current.status = "connected";
+        this.current.lastError = null;
+      },
+      onConnectionClose: (event) => {
+        console.error(
+          `Jetstream disconnected (code ${event.code}${event.reason ? `, ${event.reason}` : ""}); reconnecting`,
+        );
+        this.current.status = "disconnected";
+      },
+      onConnectionError: (event) => {
+        this.current.lastError = event.message || "WebSocket error";
+      },
+    });
+
+    const stream = subscription[Symbol.asyncIterator]();
+    try {
+      let next = stream.next();
+      while (true) {
+        // Loaded blocks and hides go out as soon as they arrive, between live events.
+        const ready = await Promise.race([next, moderation]);
+        if (Array.isArray(ready)) {
+          moderation = this.nextBlockPoll();
+          yield* ready;
+          continue;
+        }
+        if (ready.done) {
+          return;
+        }
+        next = stream.next();
+        yield* this.eventsFor(ready.value, resumeCursor);
+      }
+    } finally {
+      if (this.blockPollTimer) {
+        clearTimeout(this.blockPollTimer);
+        this.blockPollTimer = null;
+      }
+      await stream.return?.();
+    }
+  }
+
+  /** Chat events for one Jetstream event. */
+  private *eventsFor(event: JetstreamEvent, resumeCursor: number | null): Iterable<ChatEvent> {
+    if (resumeCursor !== null && event.time_us <= resumeCursor) {
+      return;
+    }
+    this.advanceCursor(event.time_us);
+
+    if (event.kind !== "commit") {
+      return;
+    }
+
+    const commit = event.commit;
+    if (commit.collection === GATE_COLLECTION) {
+      if (this.streamers.has(event.did)) {
+        yield* this.gateEvents(event.did, commit);
+      }
+      return;
+    }
+    if (commit.collection !== CHAT_COLLECTION) {
+      return;
+    }
+
+    const messageId = `${event.did}/${commit.rkey}`;
+    if (commit.operation === "delete") {
+      const streamer = this.seen.get(messageId);
+      if (streamer !== undefined) {
+        this.seen.delete(messageId);
+        yield { kind: "delete", source: this.name, streamer, did: event.did, messageId };
+      }
+      return;
+    }
+
+    if (!isObject(commit.record)) {
+      return;
+    }
+
+    const record = commit.record;
+    const streamer = record.streamer;
+    if (typeof streamer !== "string" || !this.streamers.has(streamer)) {
+      return;
+    }
+
+    const text = readMessageText(record);
+    if (!text) {
+      return;
+    }
+
+    this.current.lastEventAt = Date.now();
+    this.current.lagMs = Math.max(0, Math.round(Date.now() - event.time_us / 1000));
+    this.warnIfLagging();
+
+    if (commit.operation === "update") {
+      if (this.seen.has(messageId)) {
+        yield { kind: "edit", source: this.name, streamer, did: event.did, messageId, text };
+      }
+      return;
+    }
+
+    if (this.seen.has(messageId) || this.hiddenMessages.has(messageId)) {
+      return;
+    }
+    this.remember(messageId, streamer);
+
+    yield {
+      kind: "message",
+      source: this.name,
+      streamer,
+      did: event.did,
+      messageId,
+      user: readFirstNonEmptyString(record.user, record.sender, record.author, record.handle),
+      text,
+      identity: readIdentityHint(record),
+      replyRef: replyRefFor(
+        { uri: `at://${event.did}/${CHAT_COLLECTION}/${commit.rkey}`, cid: commit.cid },
+        record,
+      ),
+      createdAt: Date.now(),
+    };
+  }
+
+  private *gateEvents(streamer: string, commit: CommitOperation): Iterable<ChatEvent> {
+    // Un-hiding only matters for messages that arrive later; the overlay can't restore one.
+    const hiddenByGate = mapFor(this.hiddenByGate, streamer);
+    if (commit.operation === "delete") {
+      const messageId = hiddenByGate.get(commit.rkey);
+      hiddenByGate.delete(commit.rkey);
+      if (messageId) {
+        this.hiddenMessages.delete(messageId);
+      }
+      return;
+    }
+    const messageId = isObject(commit.record)
+      ? messageIdFromUri(commit.record.hiddenMessage)
+      : undefined;
+    if (!messageId) {
+      return;
+    }
+    hiddenByGate.set(commit.rkey, messageId);
+    this.hiddenMessages.add(messageId);
+    this.seen.delete(messageId);
+    const [did = ""] = messageId.split("/");
+    yield { kind: "delete", source: this.name, streamer, did, messageId };
+  }
+
+  /** Block and delete events for every streamer's existing moderation, loaded in parallel. */
+  private async loadModeration(): Promise<ChatEvent[]> {
+    const loaded = await Promise.all([...this.streamers].map((streamer) => this.loadStreamerModeration(streamer)));
+    return loaded.flat();
+  }
+
+  /**
+   * Failures only cost the backfill; blocks are tried again at the next poll.
+   * Messages that arrived while it ran and turn out to be hidden are deleted
+   * again.
+   */
+  private async loadStreamerModeration(streamer: string): Promise<ChatEvent[]> {
+    const events: ChatEvent[] = [];
+    const hiddenByGate = mapFor(this.hiddenByGate, streamer);
+    try {
+      const pds = await this.pdsFor(streamer);
+      if (!pds) {
+        console.error(
+          `Could not find the PDS for ${streamer}; earlier hidden messages won't apply ` +
+            "and its blocks wait for the next poll",
+        );
+        return events;
+      }
+
+      events.push(...(await this.syncBlocks(streamer, pds)));
+      for (const record of await this.listRecords(pds, streamer, GATE_COLLECTION)) {
+        const messageId = messageIdFromUri(record.value.hiddenMessage);
+        if (messageId) {
+          hiddenByGate.set(record.rkey, messageId);
+          this.hiddenMessages.add(messageId);
+          if (this.seen.delete(messageId)) {
+            const [did = ""] = messageId.split("/");
+            events.push({ kind: "delete", source: this.name, streamer, did, messageId });
+          }
+        }
+      }
+      const blocks = this.blocked.get(streamer)?.size ?? 0;
+      console.log(`Loaded ${blocks} block(s) and ${hiddenByGate.size} hidden message(s) for ${streamer}`);
+    } catch (error) {
+      console.error(`Failed to load moderation records for ${streamer}:`, error);
+    }
+    return events;
+  }
+
+  /** Re-reads every streamer's blocks after `BLOCK_POLL_INTERVAL_MS`. */
+  private nextBlockPoll(): Promise<ChatEvent[]> {
+    return new Promise((resolve) => {
+      this.blockPollTimer = setTimeout(() => {
+        this.blockPollTimer = null;
+        const polls = [...this.streamers].map(async (streamer) => {
+          try {
+            const pds = await this.pdsFor(streamer);
+            return pds ? await this.syncBlocks(streamer, pds) : [];
+          } catch (error) {
+            console.error(
+              `Failed to refresh blocks for ${streamer}:`,
+              error instanceof Error ? error.message : error,
+            );
+            return [];
+          }
+        });
+        resolve(Promise.all(polls).then((loaded) => loaded.flat()));
+      }, BLOCK_POLL_INTERVAL_MS);
+    });
+  }
+
+  /** Block and unblock events for how `streamer`'s block records changed since they were last read. */
+  private async syncBlocks(streamer: string, pds: string): Promise<ChatEvent[]> {
+    const records = await this.listRecords(pds, streamer, BLOCK_COLLECTION);
+    const current = new Set<string>();
+    for (const record of records) {
+      const subject = record.value.subject;
+      if (typeof subject === "string" && subject.startsWith("did:")) {
+        current.add(subject);
+      }
+    }
+
+    const previous = this.blocked.get(streamer) ?? new Set<string>();
+    // A list cut off at the page limit can't tell a removed block from an unread one.
+    const complete = records.length < MAX_MODERATION_PAGES * MODERATION_PAGE_SIZE;
+    const events: ChatEvent[] = [];
+    for (const did of current) {
+      if (!previous.has(did)) {
+        events.push({ kind: "block", source: this.name, streamer, did, blocked: true });
+      }
+    }
+    for (const did of previous) {
+      if (!current.has(did)) {
+        if (complete) {
+          events.push({ kind: "block", source: this.name, streamer, did, blocked: false });
+        } else {
+          current.add(did);
+        }
+      }
+    }
+    this.blocked.set(streamer, current);
+    return events;
+  }
+
+  /** `streamer`'s PDS, resolved once it is first found. */
+  private async pdsFor(streamer: string): Promise<string | null> {
+    const known = this.pdsByStreamer.get(streamer);
+    if (known) {
+      return known;
+    }
+    const pds = await this.options.resolvePds(streamer);
+    if (pds) {
+      this.pdsByStreamer.set(streamer, pds);
+    }
+    return pds;
+  }
+
+  private async listRecords(pds: string, repo: string, collection: string): Promise<RepoRecord[]> {
+    const records: RepoRecord[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_MODERATION_PAGES; page += 1) {
+      const url = new URL("/xrpc/com.atproto.repo.listRecords", pds);
+      url.searchParams.set("repo", repo);
+      url.searchParams.set("collection", collection);
+      url.searchParams.set("limit", String(MODERATION_PAGE_SIZE));
+      if (cursor) {
+        url.searchParams.set("cursor", cursor);
+      }
+
+      const response = await (this.options.fetch ?? fetch)(url, {
+        signal: AbortSignal.timeout(MODERATION_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`listRecords ${collection} returned ${response.status}`);
+      }
+      const payload = (await response.json()) as unknown;
+      const items = isObject(payload) && Array.isArray(payload.records) ? payload.records : [];
+      for (const item of items) {
+        if (!isObject(item) || typeof item.uri !== "string" || !isObject(item.value)) {
+          continue;
+        }
+        const rkey = item.uri.split("/").at(-1);
+        if (rkey) {
+          records.push({ rkey, value: item.value });
+        }
+      }
+
+      cursor = isObject(payload) && typeof payload.cursor === "string" ? payload.cursor : undefined;
+      if (!cursor || items.length === 0) {
+        break;
+      }
+    }
+    return records;
+  }
+
+  private remember(messageId: string, streamer: string): void {
+    this.seen.set(messageId, streamer);
+    if (this.seen.size > MAX_SEEN_MESSAGES) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest !== undefined) {
+        this.seen.delete(oldest);
+      }
+    }
+  }
+
+  private warnIfLagging(): void {
+    const lagMs = this.current.lagMs ?? 0;
+    const now = Date.now();
+    if (lagMs >= LAG_WARNING_MS && now - this.lastLagWarningAt >= LAG_WARNING_INTERVAL_MS) {
+      this.lastLagWarningAt = now;
+      console.error(`Jetstream is ${Math.round(lagMs / 1000)}s behind real time`);
+    }
+  }
+
+  /** Saved cursor, clamped to the max lookback; null starts from live events. */
+  private async loadCursor(): Promise<number | null> {
+    const { cursorFile, maxLookbackMs } = this.options;
+    if (cursorFile.length === 0) {
+      return null;
+    }
+
+    const file = Bun.file(cursorFile);
+    if (!(await file.exists())) {
+      return null;
+    }
+
+    try {
+      const payload = (await file.json()) as unknown;
+      const saved = isObject(payload) ? payload.cursor : undefined;
+      if (typeof saved !== "number" || !Number.isSafeInteger(saved)) {
+        return null;
+      }
+      const oldest = (Date.now() - maxLookbackMs) * 1000;
+      if (saved < oldest) {
+        console.log(
+          `Jetstream cursor in ${cursorFile} is older than ${maxLookbackMs}ms; resuming from the max lookback`,
+        );
+      }
+      this.cursor = Math.max(saved, oldest);
+      return this.cursor;
+    } catch (error) {
+      console.error(`Failed to read Jetstream cursor from ${cursorFile}:`, error);
+      return null;
+    }
+  }
+
+  private advanceCursor(timeUs: number): void {
+    if (this.cursor !== null && timeUs <= this.cursor) {
+      return;
+    }
+    this.cursor = timeUs;
+    if (this.options.cursorFile.length === 0 || this.cursorSaveTimer) {
+      return;
+    }
+    this.cursorSaveTimer = setTimeout(() => {
+      this.cursorSaveTimer = null;
+      void this.saveCursor();
+    }, CURSOR_SAVE_DELAY_MS);
+  }
+
+  private async saveCursor(): Promise<void> {
+    try {
+      await Bun.write(
+        this.options.cursorFile,
+        `${JSON.stringify({ cursor: this.cursor, savedAt: new Date().toISOString() })}\n`,
+      );
+    } catch (error) {
+      console.error(`Failed to save Jetstream cursor to ${this.options.cursorFile}:`, error);
+    }
+  }
+}
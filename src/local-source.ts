@@ -0,0 +1,74 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { ChatEvent, ChatSource, ChatSourceState } from "./chat-source.ts";
+
+export interface LocalChatSourceOptions {
+  /** File to read, or `-` for stdin. */
+  path: string;
+  /** Pause between lines, so a scripted file plays out like live chat. */
+  lineDelayMs: number;
+}
+
+const DEFAULT_LOCAL_USER = "console";
+const LINE_PATTERN = /^([\w.-]{1,32}):\s+(.+)$/;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Offline chat for testing: one message per line, either `text` or
+ * `user: text`. Senders are identified as `local:<user>`.
+ */
+export class LocalChatSource implements ChatSource {
+  readonly name = "local";
+  private current: ChatSourceState = {
+    status: "connecting",
+    lastEventAt: null,
+    lagMs: null,
+    lastError: null,
+  };
+
+  constructor(private readonly options: LocalChatSourceOptions) {}
+
+  get state(): ChatSourceState {
+    return { ...this.current };
+  }
+
+  async *events(): AsyncIterable<ChatEvent> {
+    const input =
+      this.options.path === "-" ? process.stdin : createReadStream(this.options.path, "utf8");
+    const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+    this.current.status = "connected";
+
+    try {
+      for await (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.length === 0 || trimmed.startsWith("#")) {
+          continue;
+        }
+
+        const match = LINE_PATTERN.exec(trimmed);
+        const user = match?.[1] ?? DEFAULT_LOCAL_USER;
+        this.current.lastEventAt = Date.now();
+        yield {
+          kind: "message",
+          source: this.name,
+          did: `local:${user.toLowerCase()}`,
+          user,
+          text: match?.[2] ?? trimmed,
+          createdAt: Date.now(),
+        };
+
+        if (this.options.lineDelayMs > 0) {
+          await sleep(this.options.lineDelayMs);
+        }
+      }
+    } catch (error) {
+      this.current.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.current.status = "ended";
+    }
+  }
+}
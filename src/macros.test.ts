@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import type { MacroConfig } from "./config.ts";
+import { expandMacro, macroProblems, parseMacroCall } from "./macros.ts";
+
+const BUTTONS = new Set(["up", "down", "left", "right", "a", "b", "start", "select"]);
+
+function macro(overrides: Partial<MacroConfig>): MacroConfig {
+  return {
+    steps: ["a"],
+    repeat: 1,
+    maxLength: 20,
+    userCooldownMs: 0,
+    globalCooldownMs: 0,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe("parseMacroCall", () => {
+  const macros = { mash: macro({}) };
+
+  test("reads the name and the optional run count", () => {
+    expect(parseMacroCall("!mash", macros)).toEqual({ name: "mash", runs: null });
+    expect(parseMacroCall(" !MASH 5 ", macros)).toEqual({ name: "mash", runs: 5 });
+    expect(parseMacroCall("!mash 0", macros)).toEqual({ name: "mash", runs: null });
+  });
+
+  test("ignores unknown macros and other text", () => {
+    expect(parseMacroCall("!other", macros)).toBeNull();
+    expect(parseMacroCall("mash", macros)).toBeNull();
+  });
+});
+
+describe("expandMacro", () => {
+  test("spells out xN repeats as single inputs", () => {
+    const inputs = expandMacro(macro({ steps: ["a x3", "up,b"] }), null, BUTTONS);
+    expect(inputs.map((input) => input.normalized)).toEqual(["a", "a", "a", "up,b"]);
+    expect(inputs.every((input) => input.repeatCount === 1)).toBe(true);
+  });
+
+  test("uses the default repeat, or the runs asked for", () => {
+    const mash = macro({ steps: ["a", "b"], repeat: 2 });
+    expect(expandMacro(mash, null, BUTTONS)).toHaveLength(4);
+    expect(expandMacro(mash, 3, BUTTONS)).toHaveLength(6);
+  });
+
+  test("fits as many runs as maxLength allows, but always at least one", () => {
+    expect(expandMacro(macro({ steps: ["a", "b"], maxLength: 5 }), 10, BUTTONS)).toHaveLength(4);
+    expect(expandMacro(macro({ steps: ["a", "b"], maxLength: 1 }), 10, BUTTONS)).toHaveLength(2);
+  });
+
+  test("expands to nothing when a step doesn't parse", () => {
+    expect(expandMacro(macro({ steps: ["a", "l"] }), null, BUTTONS)).toEqual([]);
+  });
+});
+
+describe("macroProblems", () => {
+  test("reports invalid steps and runs longer than maxLength", () => {
+    expect(
+      macroProblems({ bad: macro({ steps: ["l"] }), long: macro({ steps: ["a x5"], maxLength: 3 }) }, BUTTONS),
+    ).toEqual([
+      'macros.bad: "l" is not a valid command',
+      "macros.long: one run is 5 inputs, more than maxLength 3",
+    ]);
+  });
+});
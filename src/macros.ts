@@ -0,0 +1,109 @@
+import { parseCommand, type ParsedCommand } from "./commands.ts";
+import type { MacroConfig } from "./config.ts";
+
+export interface MacroCall {
+  name: string;
+  /** Runs the viewer asked for with `!name <runs>`, or null for the macro's default. */
+  runs: number | null;
+}
+
+/** `!mash` or `!mash 20`, when `mash` is a defined macro. */
+export function parseMacroCall(text: string, macros: Readonly<Record<string, MacroConfig>>): MacroCall | null {
+  const match = /^!([a-z0-9][a-z0-9_-]*)(?:\s+(\d+))?$/.exec(text.trim().toLowerCase());
+  if (!match?.[1] || !(match[1] in macros)) {
+    return null;
+  }
+  const runs = match[2] === undefined ? null : Number.parseInt(match[2], 10);
+  return { name: match[1], runs: runs !== null && runs > 0 ? runs : null };
+}
+
+/** One run of `steps` as single inputs, with `xN` repeats spelled out. */
+function expandRun(steps: readonly string[], supportedButtons: ReadonlySet<string>): ParsedCommand[] | null {
+  const inputs: ParsedCommand[] = [];
+  for (const step of steps) {
+    const command = parseCommand(step, { allowCommandSpam: true, supportedButtons });
+    if (!command) {
+      return null;
+    }
+    for (let i = 0; i < command.repeatCount; i += 1) {
+      inputs.push({ ...command, repeatCount: 1 });
+    }
+  }
+  return inputs;
+}
+
+/** Every step that doesn't parse with the current buttons and limits, or a run longer than `maxLength`. */
+export function macroProblems(
+  macros: Readonly<Record<string, MacroConfig>>,
+  supportedButtons: ReadonlySet<string>,
+): string[] {
+  const problems: string[] = [];
+  for (const [name, macro] of Object.entries(macros)) {
+    for (const step of macro.steps) {
+      if (!parseCommand(step, { allowCommandSpam: true, supportedButtons })) {
+        problems.push(`macros.${name}: "${step}" is not a valid command`);
+      }
+    }
+    const run = expandRun(macro.steps, supportedButtons);
+    if (run && run.length > macro.maxLength) {
+      problems.push(`macros.${name}: one run is ${run.length} inputs, more than maxLength ${macro.maxLength}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * The inputs for one use of `macro`. Asking for more runs than `maxLength`
+ * allows gets as many as fit rather than nothing.
+ */
+export function expandMacro(
+  macro: MacroConfig,
+  requestedRuns: number | null,
+  supportedButtons: ReadonlySet<string>,
+): ParsedCommand[] {
+  const run = expandRun(macro.steps, supportedButtons);
+  if (!run || run.length === 0) {
+    return [];
+  }
+  const runs = Math.max(1, Math.min(requestedRuns ?? macro.repeat, Math.floor(macro.maxLength / run.length)));
+  return Array.from({ length: runs }, () => run).flat();
+}
+
+/** `[idle] attract` steps that don't parse with the current buttons and limits. */
+export function attractProblems(steps: readonly string[], supportedButtons: ReadonlySet<string>): string[] {
+  return steps
+    .filter((step) => !parseCommand(step, { allowCommandSpam: true, supportedButtons }))
+    .map((step) => `idle.attract: "${step}" is not a valid command`);
+}
+
+/** One pass of the idle attract loop; empty when a step no longer parses. */
+export function expandAttract(steps: readonly string[], supportedButtons: ReadonlySet<string>): ParsedCommand[] {
+  return expandRun(steps, supportedButtons) ?? [];
+}
+
+/** Last use of each macro, overall and per DID. */
+export class MacroCooldowns {
+  private readonly lastUse = new Map<string, number>();
+  private readonly lastUseByDid = new Map<string, number>();
+
+  /** Milliseconds until `did` may use `name` again; 0 when it's ready. */
+  remainingMs(name: string, did: string, macro: MacroConfig, now: number): number {
+    const global = (this.lastUse.get(name) ?? Number.NEGATIVE_INFINITY) + macro.globalCooldownMs;
+    const user = (this.lastUseByDid.get(`${name}:${did}`) ?? Number.NEGATIVE_INFINITY) + macro.userCooldownMs;
+    return Math.max(0, global - now, user - now);
+  }
+
+  record(name: string, did: string, now: number): void {
+    this.lastUse.set(name, now);
+    this.lastUseByDid.set(`${name}:${did}`, now);
+  }
+
+  /** Drops entries old enough that no cooldown could still apply. */
+  prune(now: number, longestCooldownMs: number): void {
+    for (const [key, at] of this.lastUseByDid) {
+      if (now - at >= longestCooldownMs) {
+        this.lastUseByDid.delete(key);
+      }
+    }
+  }
+}
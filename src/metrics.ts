@@ -0,0 +1,172 @@
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  lines(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return `${value}`;
+}
+
+/** Labels are stored under a stable key so `{a,b}` and `{b,a}` are one series. */
+function seriesKey(labels: MetricLabels | undefined): string {
+  return JSON.stringify(Object.entries(labels ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter implements Metric {
+  readonly type = "counter";
+  private readonly series = new Map<string, MetricSample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels?: MetricLabels, by = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += by;
+    } else {
+      this.series.set(key, { labels, value: by });
+    }
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(
+      (sample) => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+    );
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = "histogram";
+  private readonly series = new Map<
+    string,
+    { labels?: MetricLabels; counts: number[]; sum: number; count: number }
+  >();
+
+  /** `buckets` are upper bounds in ascending order; `+Inf` is added automatically. */
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: readonly number[],
+  ) {}
+
+  observe(value: number, labels?: MetricLabels): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    for (const [index, bound] of this.buckets.entries()) {
+      if (value <= bound) {
+        series.counts[index] = (series.counts[index] ?? 0) + 1;
+      }
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      for (const [index, bound] of this.buckets.entries()) {
+        const labels = formatLabels({ ...series.labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${labels} ${series.counts[index] ?? 0}`);
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/** A counter or gauge read from existing state at scrape time. */
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge",
+    private readonly collect: () => number | MetricSample[],
+  ) {}
+
+  lines(): string[] {
+    const collected = this.collect();
+    const samples = typeof collected === "number" ? [{ value: collected }] : collected;
+    return samples.map(
+      (sample) => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+    );
+  }
+}
+
+/** Metrics rendered in the Prometheus text exposition format (version 0.0.4). */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** A gauge whose value is read from `collect` on every scrape. */
+  gauge(name: string, help: string, collect: () => number | MetricSample[]): void {
+    this.register(new CollectedMetric(name, help, "gauge", collect));
+  }
+
+  /** A counter kept by some other component, read from `collect` on every scrape. */
+  collectedCounter(name: string, help: string, collect: () => number | MetricSample[]): void {
+    this.register(new CollectedMetric(name, help, "counter", collect));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.lines());
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
@@ -0,0 +1,425 @@
+import { createConnection, type Socket } from "node:net";
+import {
+  BridgeDisconnectedError,
+  type BridgeState,
+  type EmulatorBackend,
+  type KeyEvent,
+  type MemoryCapability,
+  type SavestateCapability,
+  type SavestateSlot,
+} from "./emulator-backend.ts";
+
+export const BRIDGE_PROTOCOL_VERSION = 3;
+
+export interface BridgeClientOptions {
+  host: string;
+  port: number;
+  requestTimeoutMs: number;
+  heartbeatIntervalMs: number;
+  minReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+  onStateChange?: (state: BridgeState) => void;
+  /** Called for every `key` line the bridge pushes. */
+  onKeyEvent?: (event: KeyEvent) => void;
+}
+
+/** The bridge answered a request with `err <id> <message>`. */
+export class BridgeRequestError extends Error {
+  constructor(
+    readonly verb: string,
+    message: string,
+  ) {
+    super(`mGBA bridge rejected "${verb}": ${message}`);
+    this.name = "BridgeRequestError";
+  }
+}
+
+function formatAddress(address: number): string {
+  return `0x${address.toString(16)}`;
+}
+
+interface PendingRequest {
+  verb: string;
+  sentAt: number;
+  resolve: (data: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Long-lived connection to `scripts/mgba-bridge.lua`.
+ *
+ * Speaks the versioned line protocol: a `hello <version>` handshake, then
+ * `<id> <verb> [args...]` requests answered by `ok <id> [data]` or
+ * `err <id> <message>`, plus unsolicited `key <frame> down|up <buttons>`
+ * lines. A `ping` heartbeat detects dead sockets, and the client reconnects
+ * with exponential backoff until `stop()` is called.
+ */
+export class MgbaBridgeClient implements EmulatorBackend, SavestateCapability, MemoryCapability {
+  readonly name = "mgba";
+  readonly buttons: readonly string[] = [
+    "up",
+    "down",
+    "left",
+    "right",
+    "a",
+    "b",
+    "start",
+    "select",
+    "l",
+    "r",
+  ];
+  private socket: Socket | null = null;
+  private buffer = "";
+  private nextRequestId = 1;
+  private readonly pending = new Map<string, PendingRequest>();
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectedWaiters: Array<() => void> = [];
+  private stopped = true;
+  private current: BridgeState = {
+    status: "disconnected",
+    protocolVersion: null,
+    bridgeName: null,
+    lastError: null,
+    reconnectAttempts: 0,
+    lastAckAt: null,
+    latencyMs: null,
+    errorCount: 0,
+    timeoutCount: 0,
+  };
+
+  constructor(private readonly options: BridgeClientOptions) {}
+
+  get state(): BridgeState {
+    return { ...this.current };
+  }
+
+  get connected(): boolean {
+    return this.current.status === "connected";
+  }
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardown(new BridgeDisconnectedError("mGBA bridge client stopped"));
+    this.update({ status: "disconnected" });
+  }
+
+  waitUntilConnected(): Promise<void> {
+    if (this.connected) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.connectedWaiters.push(resolve);
+    });
+  }
+
+  request(verb: string, args: string[] = []): Promise<string> {
+    const socket = this.socket;
+    if (!socket || !this.connected) {
+      return Promise.reject(new BridgeDisconnectedError("mGBA bridge is not connected"));
+    }
+
+    const id = `${this.nextRequestId}`;
+    this.nextRequestId += 1;
+
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.update({ timeoutCount: this.current.timeoutCount + 1 });
+        reject(
+          new Error(
+            `Timed out waiting for mGBA bridge to ack "${verb}" (${this.options.requestTimeoutMs}ms)`,
+          ),
+        );
+      }, this.options.requestTimeoutMs);
+
+      this.pending.set(id, { verb, sentAt: Date.now(), resolve, reject, timer });
+      socket.write(`${[id, verb, ...args].join(" ")}\n`, "utf8", (error) => {
+        if (error) {
+          this.settle(id, error);
+        }
+      });
+    });
+  }
+
+  /** Resolves with the emulator frame the keys went down on, when reported. */
+  async press(buttons: string[], durationMs: number): Promise<number | null> {
+    const frame = Number.parseInt(
+      await this.request("press", [buttons.join("+"), `${durationMs}`]),
+      10,
+    );
+    return Number.isInteger(frame) ? frame : null;
+  }
+
+  async hold(buttons: string[]): Promise<void> {
+    await this.request("hold", [buttons.join("+")]);
+  }
+
+  async release(buttons: string[]): Promise<void> {
+    await this.request("release", [buttons.join("+")]);
+  }
+
+  async saveState(slot: number): Promise<void> {
+    await this.request("save", [`${slot}`]);
+  }
+
+  async loadState(slot: number): Promise<void> {
+    await this.request("load", [`${slot}`]);
+  }
+
+  async listStates(): Promise<SavestateSlot[]> {
+    const data = await this.request("slots");
+    const slots: SavestateSlot[] = [];
+    for (const entry of data.split(",")) {
+      const [slotRaw, savedAtRaw] = entry.split(":");
+      const slot = Number.parseInt(slotRaw ?? "", 10);
+      const savedAtSeconds = Number.parseInt(savedAtRaw ?? "", 10);
+      if (Number.isInteger(slot) && Number.isInteger(savedAtSeconds)) {
+        slots.push({ slot, savedAt: savedAtSeconds * 1000 });
+      }
+    }
+    return slots;
+  }
+
+  async read8(address: number): Promise<number> {
+    return this.readNumber("read8", address);
+  }
+
+  async read16(address: number): Promise<number> {
+    return this.readNumber("read16", address);
+  }
+
+  async read32(address: number): Promise<number> {
+    return this.readNumber("read32", address);
+  }
+
+  async readRange(address: number, length: number): Promise<Uint8Array> {
+    const hex = await this.request("readRange", [formatAddress(address), `${length}`]);
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i += 1) {
+      bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    if (bytes.length !== length) {
+      throw new Error(`mGBA bridge returned ${bytes.length} of ${length} bytes`);
+    }
+    return bytes;
+  }
+
+  private async readNumber(verb: string, address: number): Promise<number> {
+    const value = Number.parseInt(await this.request(verb, [formatAddress(address)]), 10);
+    if (!Number.isInteger(value)) {
+      throw new Error(`mGBA bridge returned a non-numeric ${verb} value`);
+    }
+    return value >>> 0;
+  }
+
+  private update(patch: Partial<BridgeState>): void {
+    this.current = { ...this.current, ...patch };
+    this.options.onStateChange?.(this.state);
+  }
+
+  private connect(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.update({ status: "connecting" });
+    const socket = createConnection({
+      host: this.options.host,
+      port: this.options.port,
+    });
+    socket.setEncoding("utf8");
+    socket.setNoDelay(true);
+    this.socket = socket;
+    this.buffer = "";
+
+    socket.once("connect", () => {
+      socket.write(`hello ${BRIDGE_PROTOCOL_VERSION}\n`);
+      this.handshakeTimer = setTimeout(() => {
+        this.update({ timeoutCount: this.current.timeoutCount + 1 });
+        this.fail(socket, new Error("Timed out waiting for mGBA bridge handshake"));
+      }, this.options.requestTimeoutMs);
+    });
+
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      while (true) {
+        const newline = this.buffer.indexOf("\n");
+        if (newline === -1) {
+          break;
+        }
+        const line = this.buffer.slice(0, newline).trim();
+        this.buffer = this.buffer.slice(newline + 1);
+        if (line.length > 0) {
+          this.handleLine(socket, line);
+        }
+      }
+    });
+
+    socket.on("error", (error) => {
+      this.fail(socket, error);
+    });
+
+    socket.once("close", () => {
+      this.fail(socket, new Error("mGBA bridge closed the connection"));
+    });
+  }
+
+  private handleLine(socket: Socket, line: string): void {
+    const [kind, id, ...rest] = line.split(/\s+/);
+
+    if (kind === "hello") {
+      const version = Number.parseInt(id ?? "", 10);
+      if (version !== BRIDGE_PROTOCOL_VERSION) {
+        this.fail(
+          socket,
+          new Error(
+            `mGBA bridge speaks protocol ${id ?? "?"}, expected ${BRIDGE_PROTOCOL_VERSION}`,
+          ),
+        );
+        return;
+      }
+      this.onHandshake(rest.join(" ") || null);
+      return;
+    }
+
+    if (kind === "key") {
+      const [direction, buttons] = rest;
+      const frame = Number.parseInt(id ?? "", 10);
+      if ((direction === "down" || direction === "up") && buttons) {
+        this.options.onKeyEvent?.({
+          buttons: buttons.split("+"),
+          down: direction === "down",
+          frame: Number.isInteger(frame) ? frame : null,
+        });
+      }
+      return;
+    }
+
+    if (kind === "err" && id === "hello") {
+      this.fail(socket, new Error(`mGBA bridge refused handshake: ${rest.join(" ")}`));
+      return;
+    }
+
+    if ((kind === "ok" || kind === "err") && id !== undefined) {
+      const data = rest.join(" ");
+      this.settle(
+        id,
+        kind === "err" ? new BridgeRequestError(this.pending.get(id)?.verb ?? "?", data) : null,
+        data,
+      );
+    }
+  }
+
+  private onHandshake(bridgeName: string | null): void {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = null;
+    }
+
+    this.update({
+      status: "connected",
+      protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      bridgeName,
+      lastError: null,
+      reconnectAttempts: 0,
+    });
+
+    this.heartbeatTimer = setInterval(() => {
+      const socket = this.socket;
+      this.request("ping").catch((error: Error) => {
+        if (socket && !(error instanceof BridgeDisconnectedError)) {
+          this.fail(socket, new Error(`mGBA bridge heartbeat failed: ${error.message}`));
+        }
+      });
+    }, this.options.heartbeatIntervalMs);
+
+    const waiters = this.connectedWaiters;
+    this.connectedWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  private settle(id: string, error: Error | null, data = ""): void {
+    const request = this.pending.get(id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(request.timer);
+
+    if (error) {
+      this.update({ errorCount: this.current.errorCount + 1 });
+      request.reject(error);
+      return;
+    }
+
+    const now = Date.now();
+    this.update({ lastAckAt: now, latencyMs: now - request.sentAt });
+    request.resolve(data);
+  }
+
+  private fail(socket: Socket, error: Error): void {
+    if (socket !== this.socket) {
+      return;
+    }
+
+    this.teardown(new BridgeDisconnectedError(error.message));
+    this.update({ errorCount: this.current.errorCount + 1 });
+    if (this.stopped) {
+      return;
+    }
+
+    const attempts = this.current.reconnectAttempts + 1;
+    const delay = Math.min(
+      this.options.maxReconnectDelayMs,
+      this.options.minReconnectDelayMs * 2 ** (attempts - 1),
+    );
+    this.update({
+      status: "disconnected",
+      lastError: error.message,
+      reconnectAttempts: attempts,
+      latencyMs: null,
+    });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private teardown(error: Error): void {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(error);
+      this.pending.delete(id);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { OverlayDeltaEncoder, type OverlayMessage } from "./overlay-delta.ts";
+
+interface Item {
+  id: string;
+  did: string;
+  user: string;
+  status?: string;
+}
+
+interface State {
+  chat: Item[];
+  queue: Item[];
+  mode: string;
+}
+
+function deltaEvents(message: OverlayMessage<State> | null) {
+  return message?.type === "delta" ? message.events : null;
+}
+
+function state(overrides: Partial<State> = {}): State {
+  return { chat: [], queue: [], mode: "anarchy", ...overrides };
+}
+
+describe("OverlayDeltaEncoder", () => {
+  test("has no delta for the first state, only a snapshot", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    expect(encoder.current()).toBeNull();
+    expect(encoder.advance(state())).toBeNull();
+    expect(encoder.current()).toEqual({ type: "snapshot", seq: 0, state: state() });
+  });
+
+  test("returns null when nothing changed", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    encoder.advance(state());
+    expect(encoder.advance(state())).toBeNull();
+  });
+
+  test("diffs lists into added, patched and removed items with a rising seq", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    const first = { id: "1", did: "did:a", user: "a", status: "queued" };
+    const second = { id: "2", did: "did:b", user: "b", status: "queued" };
+    encoder.advance(state({ queue: [first, second] }));
+
+    const third = { id: "3", did: "did:c", user: "c" };
+    expect(encoder.advance(state({ queue: [{ ...second, status: "active" }, third] }))).toEqual({
+      type: "delta",
+      seq: 1,
+      events: [
+        { kind: "queue.removed", ids: ["1"] },
+        { kind: "queue.updated", patches: [{ id: "2", status: "active" }] },
+        { kind: "queue.added", items: [third] },
+      ],
+    });
+    expect(encoder.advance(state({ queue: [third], mode: "democracy" }))).toEqual({
+      type: "delta",
+      seq: 2,
+      events: [
+        { kind: "queue.removed", ids: ["2"] },
+        { kind: "state", fields: { mode: "democracy" } },
+      ],
+    });
+  });
+
+  test("marks a removed field with null and reports reordering", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    const a = { id: "a", did: "did:a", user: "a", status: "queued" };
+    const b = { id: "b", did: "did:b", user: "b" };
+    encoder.advance(state({ chat: [a, b] }));
+    const { status: _status, ...withoutStatus } = a;
+    expect(deltaEvents(encoder.advance(state({ chat: [b, withoutStatus] })))).toEqual([
+      { kind: "chat.updated", patches: [{ id: "a", status: null }] },
+      { kind: "chat.reordered", ids: ["b", "a"] },
+    ]);
+  });
+
+  test("sends one identity event instead of label patches", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    encoder.advance(state({ chat: [{ id: "1", did: "did:a", user: "did:a" }] }));
+    const identity = { did: "did:a", chatUser: "Alice", queueUser: "@alice", handle: "alice" };
+    encoder.noteIdentity(identity);
+    expect(deltaEvents(encoder.advance(state({ chat: [{ id: "1", did: "did:a", user: "Alice" }] })))).toEqual([
+      { kind: "identity.updated", identity },
+    ]);
+  });
+
+  test("keeps its own copy of the state it diffs against", () => {
+    const encoder = new OverlayDeltaEncoder<State>();
+    const live = state({ queue: [{ id: "1", did: "did:a", user: "a", status: "queued" }] });
+    encoder.advance(live);
+    live.queue[0]!.status = "done";
+    expect(deltaEvents(encoder.advance(live))).toEqual([
+      { kind: "queue.updated", patches: [{ id: "1", status: "done" }] },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/** Chat lines and queue items are diffed by id; `did` lets identity updates apply to all of a user's items. */
+export interface OverlayListItem {
+  id: string;
+  did: string;
+}
+
+export interface DiffableSnapshot {
+  chat: OverlayListItem[];
+  queue: OverlayListItem[];
+}
+
+/** Changed fields of one list item; a `null` value means the field was removed. */
+export type OverlayItemPatch = { id: string } & Record<string, unknown>;
+
+/** New labels for every chat line and queue item from one DID. */
+export interface IdentityUpdate {
+  did: string;
+  chatUser: string;
+  queueUser: string;
+  handle?: string;
+  avatarUrl?: string;
+}
+
+export type OverlayDeltaEvent<T extends DiffableSnapshot> =
+  | { kind: "chat.appended"; messages: T["chat"] }
+  | { kind: "chat.updated"; patches: OverlayItemPatch[] }
+  | { kind: "chat.removed"; ids: string[] }
+  | { kind: "chat.reordered"; ids: string[] }
+  | { kind: "queue.added"; items: T["queue"] }
+  | { kind: "queue.updated"; patches: OverlayItemPatch[] }
+  | { kind: "queue.removed"; ids: string[] }
+  | { kind: "queue.reordered"; ids: string[] }
+  | { kind: "identity.updated"; identity: IdentityUpdate }
+  | { kind: "state"; fields: Partial<Omit<T, "chat" | "queue">> };
+
+export type OverlayMessage<T extends DiffableSnapshot> =
+  | { type: "snapshot"; seq: number; state: T }
+  | { type: "delta"; seq: number; events: Array<OverlayDeltaEvent<T>> };
+
+const IDENTITY_FIELDS = new Set(["user", "handle", "avatarUrl"]);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function patchFor(previous: OverlayListItem, next: OverlayListItem): OverlayItemPatch | null {
+  const before = previous as unknown as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+  const patch: OverlayItemPatch = { id: next.id };
+  let changed = false;
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!sameValue(before[key], after[key])) {
+      patch[key] = after[key] ?? null;
+      changed = true;
+    }
+  }
+  return changed ? patch : null;
+}
+
+interface ListDiff<I> {
+  added: I[];
+  patches: OverlayItemPatch[];
+  removed: string[];
+  /** Set when applying the other three in order would not give `next`'s order. */
+  reordered: string[] | null;
+}
+
+function diffList<I extends OverlayListItem>(
+  previous: I[],
+  next: I[],
+  identities: Map<string, IdentityUpdate>,
+): ListDiff<I> {
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+  const nextIds = new Set(next.map((item) => item.id));
+  const removed = previous.filter((item) => !nextIds.has(item.id)).map((item) => item.id);
+  const added: I[] = [];
+  const patches: OverlayItemPatch[] = [];
+
+  for (const item of next) {
+    const before = previousById.get(item.id);
+    if (!before) {
+      added.push(item);
+      continue;
+    }
+    const patch = patchFor(before, item);
+    if (!patch) {
+      continue;
+    }
+    // Label-only changes are covered by the identity event.
+    const coveredByIdentity =
+      identities.has(item.did) && Object.keys(patch).every((key) => key === "id" || IDENTITY_FIELDS.has(key));
+    if (!coveredByIdentity) {
+      patches.push(patch);
+    }
+  }
+
+  const expected = [
+    ...previous.filter((item) => nextIds.has(item.id)).map((item) => item.id),
+    ...added.map((item) => item.id),
+  ];
+  const actual = next.map((item) => item.id);
+  const reordered = expected.every((id, index) => id === actual[index]) ? null : actual;
+
+  return { added, patches, removed, reordered };
+}
+
+/**
+ * Turns successive overlay snapshots into sequenced delta messages. Every
+ * WebSocket client shares one sequence, so a client that sees a gap asks for
+ * `current()` again instead of guessing.
+ */
+export class OverlayDeltaEncoder<T extends DiffableSnapshot> {
+  private previous: T | null = null;
+  private seq = 0;
+  private readonly identities = new Map<string, IdentityUpdate>();
+
+  /** Sends `update` as one event on the next delta instead of a patch per item. */
+  noteIdentity(update: IdentityUpdate): void {
+    this.identities.set(update.did, update);
+  }
+
+  /** Snapshot message for the last state passed to `advance`. */
+  current(): OverlayMessage<T> | null {
+    return this.previous ? { type: "snapshot", seq: this.seq, state: this.previous } : null;
+  }
+
+  /** Records `next` and returns the delta from the previous state, or null if nothing changed. */
+  advance(next: T): OverlayMessage<T> | null {
+    // Snapshots share objects with live state, so keep a copy to diff against.
+    const state = structuredClone(next);
+    const previous = this.previous;
+    this.previous = state;
+    if (!previous) {
+      this.identities.clear();
+      return null;
+    }
+
+    const events: Array<OverlayDeltaEvent<T>> = [];
+    for (const identity of this.identities.values()) {
+      events.push({ kind: "identity.updated", identity });
+    }
+
+    const chat = diffList(previous.chat, state.chat, this.identities);
+    if (chat.removed.length > 0) {
+      events.push({ kind: "chat.removed", ids: chat.removed });
+    }
+    if (chat.patches.length > 0) {
+      events.push({ kind: "chat.updated", patches: chat.patches });
+    }
+    if (chat.added.length > 0) {
+      events.push({ kind: "chat.appended", messages: chat.added as T["chat"] });
+    }
+    if (chat.reordered) {
+      events.push({ kind: "chat.reordered", ids: chat.reordered });
+    }
+
+    const queue = diffList(previous.queue, state.queue, this.identities);
+    if (queue.removed.length > 0) {
+      events.push({ kind: "queue.removed", ids: queue.removed });
+    }
+    if (queue.patches.length > 0) {
+      events.push({ kind: "queue.updated", patches: queue.patches });
+    }
+    if (queue.added.length > 0) {
+      events.push({ kind: "queue.added", items: queue.added as T["queue"] });
+    }
+    if (queue.reordered) {
+      events.push({ kind: "queue.reordered", ids: queue.reordered });
+    }
+    this.identities.clear();
+
+    const fields: Record<string, unknown> = {};
+    let stateChanged = false;
+    const before = previous as unknown as Record<string, unknown>;
+    for (const [key, value] of Object.entries(state)) {
+      if (key !== "chat" && key !== "queue" && !sameValue(before[key], value)) {
+        fields[key] = value ?? null;
+        stateChanged = true;
+      }
+    }
+    if (stateChanged) {
+      events.push({ kind: "state", fields: fields as Partial<Omit<T, "chat" | "queue">> });
+    }
+
+    if (events.length === 0) {
+      return null;
+    }
+    this.seq += 1;
+    return { type: "delta", seq: this.seq, events };
+  }
+}
@@ -0,0 +1,152 @@
+import { join } from "node:path";
+import {
+  OVERLAY_PANELS,
+  parseOverlayLayout,
+  type ChatFilter,
+  type OverlayLayoutConfig,
+  type OverlayPanel,
+} from "./config.ts";
+
+/** Everything `overlay.html` needs to lay itself out, injected into the page. */
+export interface OverlayLayout {
+  panels: OverlayPanel[];
+  theme: string;
+  /** Stylesheet of a custom theme; null for `auto`, `day` and `night`. */
+  themeUrl: string | null;
+  chat: ChatFilter;
+  orbs: boolean;
+  /** One panel filling a transparent page, for its own browser source. */
+  single: boolean;
+  chatWidth: string | null;
+  chatHeight: string | null;
+  sideWidth: string | null;
+}
+
+export type OverlayLayoutResult =
+  | { ok: true; layout: OverlayLayout }
+  | { ok: false; status: number; message: string };
+
+const FULL_OVERLAY_PANELS: OverlayPanel[] = ["chat", "queue", "howto", "party"];
+const BUILT_IN_THEMES = new Set(["auto", "day", "night"]);
+/** Marker in `overlay.html` that is replaced by the page's layout. */
+const LAYOUT_PLACEHOLDER = '<script id="overlay-layout" type="application/json">null</script>';
+
+/**
+ * The panel an overlay path shows: null for the full `/overlay`, undefined
+ * when the path isn't an overlay page at all.
+ */
+export function overlayPanelForPath(pathname: string): OverlayPanel | null | undefined {
+  if (pathname === "/" || pathname === "/overlay") {
+    return null;
+  }
+  const match = /^\/overlay\/([a-z]+)$/.exec(pathname);
+  const panel = match?.[1];
+  return panel !== undefined && OVERLAY_PANELS.includes(panel as OverlayPanel)
+    ? (panel as OverlayPanel)
+    : undefined;
+}
+
+/** The layout settings in an overlay URL. Other parameters are ignored, so cache-busting ones still work. */
+function layoutFromQuery(query: URLSearchParams): ReturnType<typeof parseOverlayLayout> {
+  const raw: Record<string, unknown> = {};
+  for (const key of ["theme", "chat", "chatWidth", "chatHeight", "sideWidth"]) {
+    const value = query.get(key);
+    if (value !== null) {
+      raw[key] = value.trim();
+    }
+  }
+  const panels = query.get("panels");
+  if (panels !== null) {
+    raw.panels = panels
+      .split(",")
+      .map((panel) => panel.trim())
+      .filter((panel) => panel.length > 0);
+  }
+  const orbs = query.get("orbs");
+  if (orbs !== null) {
+    raw.orbs = orbs === "1" || orbs === "true" ? true : orbs === "0" || orbs === "false" ? false : orbs;
+  }
+  return parseOverlayLayout(raw);
+}
+
+/**
+ * Builds the layout for one overlay page. Settings come from the route's
+ * defaults, then the `?layout=<name>` preset, then the query string. A
+ * single-panel route always shows just that panel.
+ */
+export async function resolveOverlayLayout(
+  panel: OverlayPanel | null,
+  query: URLSearchParams,
+  presets: Readonly<Record<string, OverlayLayoutConfig>>,
+  themesDir: string,
+): Promise<OverlayLayoutResult> {
+  const presetName = query.get("layout");
+  const preset =
+    presetName === null ? {} : Object.hasOwn(presets, presetName) ? presets[presetName] : undefined;
+  if (!preset) {
+    return { ok: false, status: 404, message: `Unknown overlay layout "${presetName}"` };
+  }
+  const fromQuery = layoutFromQuery(query);
+  if (!fromQuery.ok) {
+    return { ok: false, status: 400, message: `Invalid overlay layout: expected ${fromQuery.expected}` };
+  }
+
+  const settings: OverlayLayoutConfig = { ...preset, ...fromQuery.value };
+  let panels = panel === null ? (settings.panels ?? FULL_OVERLAY_PANELS) : [panel];
+  // `?leaderboard=1` and `?controller=1` predate `panels` and still add their panel.
+  if (panel === null) {
+    for (const extra of ["leaderboard", "controller"] as const) {
+      if (query.get(extra) === "1" && !panels.includes(extra)) {
+        panels = [...panels, extra];
+      }
+    }
+  }
+
+  const theme = settings.theme ?? "auto";
+  let themeUrl: string | null = null;
+  if (!BUILT_IN_THEMES.has(theme)) {
+    if (!(await Bun.file(join(themesDir, `${theme}.css`)).exists())) {
+      return { ok: false, status: 404, message: `No theme "${theme}" in ${themesDir}` };
+    }
+    themeUrl = `/overlay/themes/${theme}.css`;
+  }
+
+  return {
+    ok: true,
+    layout: {
+      panels,
+      theme,
+      themeUrl,
+      chat: settings.chat ?? "non_commands",
+      orbs: settings.orbs ?? panel === null,
+      single: panel !== null,
+      chatWidth: settings.chatWidth ?? null,
+      chatHeight: settings.chatHeight ?? null,
+      sideWidth: settings.sideWidth ?? null,
+    },
+  };
+}
+
+/** `overlay.html` with `layout` filled in. */
+export function renderOverlayPage(html: string, layout: OverlayLayout): string {
+  const json = JSON.stringify(layout).replace(/</g, "\\u003c");
+  return html.replace(LAYOUT_PLACEHOLDER, () => LAYOUT_PLACEHOLDER.replace("null", json));
+}
+
+/** Serves `/overlay/themes/<name>.css` from `themesDir`; null when there is no such theme. */
+export async function themeStylesheet(pathname: string, themesDir: string): Promise<Response | null> {
+  const match = /^\/overlay\/themes\/([a-z0-9][a-z0-9_-]*)\.css$/.exec(pathname);
+  if (!match?.[1]) {
+    return null;
+  }
+  const file = Bun.file(join(themesDir, `${match[1]}.css`));
+  if (!(await file.exists())) {
+    return null;
+  }
+  return new Response(file, {
+    headers: {
+      "Content-Type": "text/css; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,387 @@
+import { createSocket, type Socket } from "node:dgram";
+import {
+  BridgeDisconnectedError,
+  type BridgeState,
+  type EmulatorBackend,
+  type KeyEvent,
+  type MemoryCapability,
+  type PauseCapability,
+} from "./emulator-backend.ts";
+
+export interface RetroArchBackendOptions {
+  host: string;
+  /** `network_cmd_port`, used for the heartbeat and memory reads. */
+  commandPort: number;
+  /** `network_remote_base_port` of the player to drive. */
+  inputPort: number;
+  requestTimeoutMs: number;
+  heartbeatIntervalMs: number;
+  onStateChange?: (state: BridgeState) => void;
+  /** Called once RetroArch has been sent each button change; it never reports frames. */
+  onKeyEvent?: (event: KeyEvent) => void;
+}
+
+/** libretro `RETRO_DEVICE_ID_JOYPAD_*` ids. */
+const JOYPAD_IDS: Record<string, number> = {
+  b: 0,
+  y: 1,
+  select: 2,
+  start: 3,
+  up: 4,
+  down: 5,
+  left: 6,
+  right: 7,
+  a: 8,
+  x: 9,
+  l: 10,
+  r: 11,
+};
+const RETRO_DEVICE_JOYPAD = 1;
+/** `struct remote_message { int port, device, index, id; uint16_t state; }`, padded. */
+const REMOTE_MESSAGE_SIZE = 20;
+const MAX_READ_CHUNK = 256;
+
+interface PendingCommand {
+  sentAt: number;
+  matches: (reply: string) => boolean;
+  resolve: (reply: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Drives RetroArch over UDP: buttons through the Network RetroPad
+ * (`network_remote_enable`) and memory reads through network commands
+ * (`network_cmd_enable`). RetroArch never acks input, so connection state
+ * comes from a `VERSION` heartbeat on the command port. Savestates are not
+ * supported because network commands can't address a slot directly.
+ */
+export class RetroArchBackend implements EmulatorBackend, MemoryCapability, PauseCapability {
+  readonly name = "retroarch";
+  readonly buttons: readonly string[] = Object.keys(JOYPAD_IDS);
+  private socket: Socket | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private commandChain: Promise<unknown> = Promise.resolve();
+  private pending: PendingCommand | null = null;
+  private readonly releaseTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private connectedWaiters: Array<() => void> = [];
+  private current: BridgeState = {
+    status: "disconnected",
+    protocolVersion: null,
+    bridgeName: null,
+    lastError: null,
+    reconnectAttempts: 0,
+    lastAckAt: null,
+    latencyMs: null,
+    errorCount: 0,
+    timeoutCount: 0,
+  };
+
+  constructor(private readonly options: RetroArchBackendOptions) {}
+
+  get state(): BridgeState {
+    return { ...this.current };
+  }
+
+  get connected(): boolean {
+    return this.current.status === "connected";
+  }
+
+  start(): void {
+    if (this.socket) {
+      return;
+    }
+
+    const socket = createSocket("udp4");
+    socket.on("message", (message) => {
+      this.handleReply(message.toString("utf8").trim());
+    });
+    socket.on("error", (error) => {
+      this.update({ lastError: error.message, errorCount: this.current.errorCount + 1 });
+    });
+    socket.bind();
+    this.socket = socket;
+
+    this.update({ status: "connecting" });
+    void this.probe();
+    this.heartbeatTimer = setInterval(() => {
+      void this.probe();
+    }, this.options.heartbeatIntervalMs);
+  }
+
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    for (const timer of this.releaseTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.releaseTimers.clear();
+    this.rejectPending(new BridgeDisconnectedError("RetroArch backend stopped"));
+    this.socket?.close();
+    this.socket = null;
+    this.update({ status: "disconnected" });
+  }
+
+  waitUntilConnected(): Promise<void> {
+    if (this.connected) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.connectedWaiters.push(resolve);
+    });
+  }
+
+  /** RetroArch doesn't report frames, so this always resolves with null. */
+  async press(buttons: string[], durationMs: number): Promise<number | null> {
+    await this.hold(buttons);
+    for (const button of buttons) {
+      this.releaseTimers.set(
+        button,
+        setTimeout(() => {
+          this.releaseTimers.delete(button);
+          void this.sendInput(button, false).catch(() => undefined);
+        }, durationMs),
+      );
+    }
+    return null;
+  }
+
+  async hold(buttons: string[]): Promise<void> {
+    this.ensureConnected();
+    for (const button of buttons) {
+      this.clearReleaseTimer(button);
+      await this.sendInput(button, true);
+    }
+  }
+
+  async release(buttons: string[]): Promise<void> {
+    this.ensureConnected();
+    for (const button of buttons) {
+      this.clearReleaseTimer(button);
+      await this.sendInput(button, false);
+    }
+  }
+
+  /** RetroArch can only toggle pause, so this checks `GET_STATUS` first. */
+  async setPaused(paused: boolean): Promise<void> {
+    const reply = await this.command("GET_STATUS", (line) => line.startsWith("GET_STATUS"));
+    const status = reply.split(/\s+/)[1];
+    if (status !== "PAUSED" && status !== "PLAYING") {
+      throw new Error(`RetroArch has no content running (${status ?? "no status"})`);
+    }
+    if ((status === "PAUSED") !== paused) {
+      await this.notify("PAUSE_TOGGLE");
+    }
+  }
+
+  async read8(address: number): Promise<number> {
+    const bytes = await this.readRange(address, 1);
+    return bytes[0] ?? 0;
+  }
+
+  async read16(address: number): Promise<number> {
+    const bytes = await this.readRange(address, 2);
+    return new DataView(bytes.buffer).getUint16(0, true);
+  }
+
+  async read32(address: number): Promise<number> {
+    const bytes = await this.readRange(address, 4);
+    return new DataView(bytes.buffer).getUint32(0, true);
+  }
+
+  async readRange(address: number, length: number): Promise<Uint8Array> {
+    this.ensureConnected();
+    const bytes = new Uint8Array(length);
+    for (let offset = 0; offset < length; offset += MAX_READ_CHUNK) {
+      const chunkLength = Math.min(MAX_READ_CHUNK, length - offset);
+      bytes.set(await this.readChunk(address + offset, chunkLength), offset);
+    }
+    return bytes;
+  }
+
+  private async readChunk(address: number, length: number): Promise<Uint8Array> {
+    const hexAddress = address.toString(16);
+    const reply = await this.command(
+      `READ_CORE_MEMORY ${hexAddress} ${length}`,
+      (line) => {
+        const [verb, echoed] = line.split(/\s+/);
+        return (
+          verb === "READ_CORE_MEMORY" &&
+          Number.parseInt(echoed ?? "", 16) === address
+        );
+      },
+    );
+
+    const [, , ...data] = reply.split(/\s+/);
+    if (data[0] === "-1") {
+      throw new Error(`RetroArch could not read 0x${hexAddress}: ${data.slice(1).join(" ")}`);
+    }
+    if (data.length !== length) {
+      throw new Error(`RetroArch returned ${data.length} of ${length} bytes`);
+    }
+    return Uint8Array.from(data, (byte) => Number.parseInt(byte, 16));
+  }
+
+  private async probe(): Promise<void> {
+    try {
+      const version = await this.command("VERSION", (line) => /^\d+\.\d+/.test(line), false);
+      if (!this.connected) {
+        this.update({
+          status: "connected",
+          bridgeName: `RetroArch ${version}`,
+          lastError: null,
+          reconnectAttempts: 0,
+        });
+        const waiters = this.connectedWaiters;
+        this.connectedWaiters = [];
+        for (const resolve of waiters) {
+          resolve();
+        }
+      }
+    } catch (error) {
+      if (!this.socket) {
+        return;
+      }
+      this.update({
+        status: "disconnected",
+        lastError: `RetroArch heartbeat failed: ${error instanceof Error ? error.message : String(error)}`,
+        reconnectAttempts: this.current.reconnectAttempts + 1,
+        latencyMs: null,
+      });
+    }
+  }
+
+  /** Network commands carry no ids, so they run one at a time and match on the reply. */
+  private command(
+    text: string,
+    matches: (reply: string) => boolean,
+    requireConnection = true,
+  ): Promise<string> {
+    const run = this.commandChain.then(
+      () =>
+        new Promise<string>((resolve, reject) => {
+          const socket = this.socket;
+          if (!socket || (requireConnection && !this.connected)) {
+            reject(new BridgeDisconnectedError("RetroArch is not connected"));
+            return;
+          }
+
+          const timer = setTimeout(() => {
+            this.pending = null;
+            this.update({ timeoutCount: this.current.timeoutCount + 1 });
+            reject(
+              new Error(
+                `Timed out waiting for RetroArch to answer "${text}" (${this.options.requestTimeoutMs}ms)`,
+              ),
+            );
+          }, this.options.requestTimeoutMs);
+
+          this.pending = { sentAt: Date.now(), matches, resolve, reject, timer };
+          socket.send(`${text}\n`, this.options.commandPort, this.options.host, (error) => {
+            if (error) {
+              this.update({ errorCount: this.current.errorCount + 1 });
+              this.rejectPending(error);
+            }
+          });
+        }),
+    );
+    this.commandChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Sends a network command RetroArch doesn't answer, in turn with the others. */
+  private notify(text: string): Promise<void> {
+    const run = this.commandChain.then(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          const socket = this.socket;
+          if (!socket || !this.connected) {
+            reject(new BridgeDisconnectedError("RetroArch is not connected"));
+            return;
+          }
+          socket.send(`${text}\n`, this.options.commandPort, this.options.host, (error) => {
+            if (error) {
+              this.update({ errorCount: this.current.errorCount + 1 });
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        }),
+    );
+    this.commandChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private handleReply(line: string): void {
+    const pending = this.pending;
+    if (!pending || !pending.matches(line)) {
+      return;
+    }
+    this.pending = null;
+    clearTimeout(pending.timer);
+
+    const now = Date.now();
+    this.update({ lastAckAt: now, latencyMs: now - pending.sentAt });
+    pending.resolve(line);
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+    this.pending = null;
+    clearTimeout(pending.timer);
+    pending.reject(error);
+  }
+
+  private sendInput(button: string, pressed: boolean): Promise<void> {
+    const id = JOYPAD_IDS[button];
+    if (id === undefined) {
+      return Promise.reject(new Error(`RetroArch backend cannot press "${button}"`));
+    }
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new BridgeDisconnectedError("RetroArch backend stopped"));
+    }
+
+    const message = Buffer.alloc(REMOTE_MESSAGE_SIZE);
+    message.writeInt32LE(0, 0);
+    message.writeInt32LE(RETRO_DEVICE_JOYPAD, 4);
+    message.writeInt32LE(0, 8);
+    message.writeInt32LE(id, 12);
+    message.writeUInt16LE(pressed ? 1 : 0, 16);
+    return new Promise((resolve, reject) => {
+      socket.send(message, this.options.inputPort, this.options.host, (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        this.options.onKeyEvent?.({ buttons: [button], down: pressed, frame: null });
+        resolve();
+      });
+    });
+  }
+
+  private clearReleaseTimer(button: string): void {
+    const timer = this.releaseTimers.get(button);
+    if (timer) {
+      clearTimeout(timer);
+      this.releaseTimers.delete(button);
+    }
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new BridgeDisconnectedError("RetroArch is not connected");
+    }
+  }
+
+  private update(patch: Partial<BridgeState>): void {
+    this.current = { ...this.current, ...patch };
+    this.options.onStateChange?.(this.state);
+  }
+}
@@ -0,0 +1,303 @@
+import { Database } from "bun:sqlite";
+import type { ParsedCommand } from "./commands.ts";
+
+export type LeaderboardPeriod = "all" | "session";
+
+export interface StoredIdentity {
+  handle?: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface ViewerStats {
+  did: string;
+  handle: string | null;
+  displayName: string | null;
+  avatarUrl: string | null;
+  /** Accepted chat commands, including democracy votes. */
+  commands: number;
+  /** Button presses those commands asked for, counting `xN` repeats. */
+  presses: number;
+  favoriteButton: string | null;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface SessionTotals {
+  id: number;
+  startedAt: number;
+  lastActiveAt: number | null;
+  viewers: number;
+  commands: number;
+  presses: number;
+}
+
+export interface LeaderboardEntry extends ViewerStats {
+  rank: number;
+}
+
+interface ViewerRow {
+  did: string;
+  handle: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  commands: number;
+  presses: number;
+  favorite_button: string | null;
+  first_seen: number;
+  last_seen: number;
+}
+
+interface SessionRow {
+  id: number;
+  started_at: number;
+  last_active_at: number | null;
+  viewers: number;
+  commands: number;
+  presses: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS viewers (
+    did TEXT PRIMARY KEY,
+    handle TEXT,
+    display_name TEXT,
+    avatar_url TEXT,
+    commands INTEGER NOT NULL DEFAULT 0,
+    presses INTEGER NOT NULL DEFAULT 0,
+    first_seen INTEGER NOT NULL,
+    last_seen INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS viewer_buttons (
+    did TEXT NOT NULL,
+    button TEXT NOT NULL,
+    presses INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (did, button)
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at INTEGER NOT NULL,
+    last_active_at INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS session_viewers (
+    session_id INTEGER NOT NULL,
+    did TEXT NOT NULL,
+    commands INTEGER NOT NULL DEFAULT 0,
+    presses INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (session_id, did)
+  );
+  CREATE INDEX IF NOT EXISTS viewers_by_commands ON viewers (commands DESC);
+`;
+
+const FAVORITE_BUTTON = `
+  (SELECT b.button FROM viewer_buttons b
+    WHERE b.did = v.did
+    ORDER BY b.presses DESC, b.button
+    LIMIT 1) AS favorite_button
+`;
+
+const SESSION_TOTALS = `
+  SELECT s.id, s.started_at, s.last_active_at,
+    COUNT(sv.did) AS viewers,
+    COALESCE(SUM(sv.commands), 0) AS commands,
+    COALESCE(SUM(sv.presses), 0) AS presses
+  FROM sessions s
+  LEFT JOIN session_viewers sv ON sv.session_id = s.id
+`;
+
+/** Buttons pressed by one run of a command, before `xN` repeats. */
+function buttonsPerRun(command: ParsedCommand): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const step of command.steps) {
+    if (step.kind !== "press") {
+      continue;
+    }
+    for (const button of step.buttons) {
+      counts.set(button, (counts.get(button) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function toViewerStats(row: ViewerRow): ViewerStats {
+  return {
+    did: row.did,
+    handle: row.handle,
+    displayName: row.display_name,
+    avatarUrl: row.avatar_url,
+    commands: row.commands,
+    presses: row.presses,
+    favoriteButton: row.favorite_button,
+    firstSeen: row.first_seen,
+    lastSeen: row.last_seen,
+  };
+}
+
+function toSessionTotals(row: SessionRow): SessionTotals {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    lastActiveAt: row.last_active_at,
+    viewers: row.viewers,
+    commands: row.commands,
+    presses: row.presses,
+  };
+}
+
+/**
+ * Per-viewer command counts in SQLite, kept across restarts. Each process
+ * run is one session, so the leaderboard can show the current stream or all
+ * time. Identities are cached here only so the leaderboard has a label
+ * before Slingshot answers.
+ */
+export class StatsStore {
+  private readonly db: Database;
+  readonly sessionId: number;
+
+  constructor(path: string, startedAt = Date.now()) {
+    this.db = new Database(path, { create: true, strict: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(SCHEMA);
+    const session = this.db
+      .query<{ id: number }, [number]>("INSERT INTO sessions (started_at) VALUES (?) RETURNING id")
+      .get(startedAt);
+    if (!session) {
+      throw new Error(`Failed to start a stats session in ${path}`);
+    }
+    this.sessionId = session.id;
+  }
+
+  recordCommand(did: string, command: ParsedCommand, at: number, identity?: StoredIdentity): void {
+    const buttons = buttonsPerRun(command);
+    let presses = 0;
+    for (const count of buttons.values()) {
+      presses += count * command.repeatCount;
+    }
+
+    this.db.transaction(() => {
+      this.db
+        .query(
+          `INSERT INTO viewers (did, handle, display_name, avatar_url, commands, presses, first_seen, last_seen)
+           VALUES ($did, $handle, $displayName, $avatarUrl, 1, $presses, $at, $at)
+           ON CONFLICT (did) DO UPDATE SET
+             handle = COALESCE(excluded.handle, handle),
+             display_name = COALESCE(excluded.display_name, display_name),
+             avatar_url = COALESCE(excluded.avatar_url, avatar_url),
+             commands = commands + 1,
+             presses = presses + excluded.presses,
+             last_seen = excluded.last_seen`,
+        )
+        .run({
+          did,
+          handle: identity?.handle ?? null,
+          displayName: identity?.displayName ?? null,
+          avatarUrl: identity?.avatarUrl ?? null,
+          presses,
+          at,
+        });
+
+      const pressButton = this.db.query(
+        `INSERT INTO viewer_buttons (did, button, presses) VALUES ($did, $button, $presses)
+         ON CONFLICT (did, button) DO UPDATE SET presses = presses + excluded.presses`,
+      );
+      for (const [button, count] of buttons) {
+        pressButton.run({ did, button, presses: count * command.repeatCount });
+      }
+
+      this.db
+        .query(
+          `INSERT INTO session_viewers (session_id, did, commands, presses) VALUES ($session, $did, 1, $presses)
+           ON CONFLICT (session_id, did) DO UPDATE SET
+             commands = commands + 1,
+             presses = presses + excluded.presses`,
+        )
+        .run({ session: this.sessionId, did, presses });
+      this.db
+        .query("UPDATE sessions SET last_active_at = $at WHERE id = $session")
+        .run({ session: this.sessionId, at });
+    })();
+  }
+
+  /** Refreshes the stored label of a viewer who has already sent commands. */
+  updateIdentity(did: string, identity: StoredIdentity): void {
+    this.db
+      .query(
+        `UPDATE viewers SET
+           handle = COALESCE($handle, handle),
+           display_name = COALESCE($displayName, display_name),
+           avatar_url = COALESCE($avatarUrl, avatar_url)
+         WHERE did = $did`,
+      )
+      .run({
+        did,
+        handle: identity.handle ?? null,
+        displayName: identity.displayName ?? null,
+        avatarUrl: identity.avatarUrl ?? null,
+      });
+  }
+
+  viewer(did: string): ViewerStats | null {
+    const row = this.db
+      .query<ViewerRow, { did: string }>(`SELECT v.*, ${FAVORITE_BUTTON} FROM viewers v WHERE v.did = $did`)
+      .get({ did });
+    return row ? toViewerStats(row) : null;
+  }
+
+  /** Top viewers by commands; ties go to whoever pressed more, then to whoever came first. */
+  leaderboard(period: LeaderboardPeriod, limit: number): LeaderboardEntry[] {
+    const rows =
+      period === "session"
+        ? this.db
+            .query<ViewerRow, { session: number; limit: number }>(
+              `SELECT v.did, v.handle, v.display_name, v.avatar_url, sv.commands, sv.presses,
+                 v.first_seen, v.last_seen, ${FAVORITE_BUTTON}
+               FROM session_viewers sv
+               JOIN viewers v ON v.did = sv.did
+               WHERE sv.session_id = $session
+               ORDER BY sv.commands DESC, sv.presses DESC, v.first_seen
+               LIMIT $limit`,
+            )
+            .all({ session: this.sessionId, limit })
+        : this.db
+            .query<ViewerRow, { limit: number }>(
+              `SELECT v.*, ${FAVORITE_BUTTON} FROM viewers v
+               ORDER BY v.commands DESC, v.presses DESC, v.first_seen
+               LIMIT $limit`,
+            )
+            .all({ limit });
+    return rows.map((row, index) => ({ rank: index + 1, ...toViewerStats(row) }));
+  }
+
+  currentSession(): SessionTotals {
+    const row = this.db
+      .query<SessionRow, { session: number }>(`${SESSION_TOTALS} WHERE s.id = $session GROUP BY s.id`)
+      .get({ session: this.sessionId });
+    if (!row) {
+      throw new Error(`Stats session ${this.sessionId} is missing`);
+    }
+    return toSessionTotals(row);
+  }
+
+  /** Most recent sessions first, including the current one. */
+  recentSessions(limit: number): SessionTotals[] {
+    return this.db
+      .query<SessionRow, { limit: number }>(`${SESSION_TOTALS} GROUP BY s.id ORDER BY s.id DESC LIMIT $limit`)
+      .all({ limit })
+      .map(toSessionTotals);
+  }
+
+  totals(): { viewers: number; commands: number; presses: number; sessions: number } {
+    const row = this.db
+      .query<{ viewers: number; commands: number; presses: number }, []>(
+        "SELECT COUNT(*) AS viewers, COALESCE(SUM(commands), 0) AS commands, COALESCE(SUM(presses), 0) AS presses FROM viewers",
+      )
+      .get();
+    const sessions = this.db.query<{ count: number }, []>("SELECT COUNT(*) AS count FROM sessions").get();
+    return {
+      viewers: row?.viewers ?? 0,
+      commands: row?.commands ?? 0,
+      presses: row?.presses ?? 0,
+      sessions: sessions?.count ?? 0,
+    };
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  ChatEventChannel,
+  type ChatEvent,
+  type ChatSource,
+  type ChatSourceState,
+} from "./chat-source.ts";
+
+export interface TwitchChatSourceOptions {
+  url: string;
+  channel: string;
+  /** Login and OAuth token; both unset joins anonymously (read-only). */
+  nick?: string;
+  token?: string;
+  minReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+}
+
+interface IrcMessage {
+  tags: Map<string, string>;
+  prefix: string | null;
+  command: string;
+  params: string[];
+}
+
+function unescapeTagValue(value: string): string {
+  return value.replace(/\\(.)/g, (_, escaped: string) => {
+    switch (escaped) {
+      case "s":
+        return " ";
+      case ":":
+        return ";";
+      case "r":
+        return "\r";
+      case "n":
+        return "\n";
+      default:
+        return escaped;
+    }
+  });
+}
+
+function parseIrcLine(line: string): IrcMessage | null {
+  let rest = line;
+  const tags = new Map<string, string>();
+
+  if (rest.startsWith("@")) {
+    const space = rest.indexOf(" ");
+    if (space === -1) {
+      return null;
+    }
+    for (const tag of rest.slice(1, space).split(";")) {
+      const [key, value = ""] = tag.split("=", 2);
+      if (key) {
+        tags.set(key, unescapeTagValue(value));
+      }
+    }
+    rest = rest.slice(space + 1).trimStart();
+  }
+
+  let prefix: string | null = null;
+  if (rest.startsWith(":")) {
+    const space = rest.indexOf(" ");
+    if (space === -1) {
+      return null;
+    }
+    prefix = rest.slice(1, space);
+    rest = rest.slice(space + 1).trimStart();
+  }
+
+  const trailingAt = rest.indexOf(" :");
+  const head = trailingAt === -1 ? rest : rest.slice(0, trailingAt);
+  const [command, ...params] = head.split(" ").filter((part) => part.length > 0);
+  if (!command) {
+    return null;
+  }
+  if (trailingAt !== -1) {
+    params.push(rest.slice(trailingAt + 2));
+  }
+
+  return { tags, prefix, command: command.toUpperCase(), params };
+}
+
+/**
+ * Reads one channel from a Twitch-compatible IRC-over-WebSocket server. Chatters
+ * are identified as `twitch:<login>`. Reconnects with exponential backoff, and
+ * whenever the server sends `RECONNECT`. `CLEARMSG` becomes a delete event.
+ */
+export class TwitchChatSource implements ChatSource {
+  readonly name = "twitch";
+  private reconnectAttempts = 0;
+  private current: ChatSourceState = {
+    status: "connecting",
+    lastEventAt: null,
+    lagMs: null,
+    lastError: null,
+  };
+
+  constructor(private readonly options: TwitchChatSourceOptions) {}
+
+  get state(): ChatSourceState {
+    return { ...this.current };
+  }
+
+  events(): AsyncIterable<ChatEvent> {
+    const channel = new ChatEventChannel();
+    this.connect(channel);
+    return channel;
+  }
+
+  private connect(channel: ChatEventChannel): void {
+    const room = this.options.channel.replace(/^#/, "").toLowerCase();
+    const socket = new WebSocket(this.options.url);
+
+    socket.addEventListener("open", () => {
+      const token = this.options.token?.replace(/^oauth:/, "");
+      const nick =
+        token && this.options.nick
+          ? this.options.nick.toLowerCase()
+          : `justinfan${Math.floor(10000 + Math.random() * 80000)}`;
+      socket.send("CAP REQ :twitch.tv/tags");
+      if (token && this.options.nick) {
+        socket.send(`PASS oauth:${token}`);
+      }
+      socket.send(`NICK ${nick}`);
+      socket.send(`JOIN #${room}`);
+    });
+
+    socket.addEventListener("message", (message) => {
+      for (const line of String(message.data).split("\r\n")) {
+        if (line.length === 0) {
+          continue;
+        }
+        const parsed = parseIrcLine(line);
+        if (!parsed) {
+          continue;
+        }
+        this.handleMessage(socket, channel, parsed);
+      }
+    });
+
+    socket.addEventListener("close", () => {
+      this.reconnectAttempts += 1;
+      const delay = Math.min(
+        this.options.maxReconnectDelayMs,
+        this.options.minReconnectDelayMs * 2 ** (this.reconnectAttempts - 1),
+      );
+      this.current.status = "disconnected";
+      console.error(`Twitch chat disconnected from #${room}; reconnecting in ${delay}ms`);
+      setTimeout(() => this.connect(channel), delay);
+    });
+
+    socket.addEventListener("error", () => {
+      this.current.lastError = `WebSocket error talking to ${this.options.url}`;
+      socket.close();
+    });
+  }
+
+  private handleMessage(socket: WebSocket, channel: ChatEventChannel, message: IrcMessage): void {
+    switch (message.command) {
+      case "PING":
+        socket.send(`PONG :${message.params[0] ?? "tmi.twitch.tv"}`);
+        return;
+      case "RECONNECT":
+        socket.close();
+        return;
+      case "JOIN":
+        // Without the membership capability Twitch only echoes our own JOIN.
+        console.log(`Twitch chat joined ${message.params[0] ?? ""}`);
+        this.reconnectAttempts = 0;
+        this.current.status = "connected";
+        this.current.lastError = null;
+        return;
+      case "PRIVMSG": {
+        const text = message.params[1];
+        const login = message.prefix?.split("!")[0]?.toLowerCase();
+        if (!text || !login) {
+          return;
+        }
+        const displayName = message.tags.get("display-name") || undefined;
+        this.current.lastEventAt = Date.now();
+        this.current.lagMs = this.lagFromTags(message);
+        channel.push({
+          kind: "message",
+          source: this.name,
+          did: `twitch:${login}`,
+          messageId: message.tags.get("id") || undefined,
+          user: displayName ?? login,
+          text,
+          identity: { handle: login, displayName },
+          createdAt: Date.now(),
+        });
+        return;
+      }
+      case "CLEARMSG": {
+        const login = message.tags.get("login")?.toLowerCase();
+        const messageId = message.tags.get("target-msg-id");
+        if (!login || !messageId) {
+          return;
+        }
+        channel.push({ kind: "delete", source: this.name, did: `twitch:${login}`, messageId });
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /** `tmi-sent-ts` is the server's send time in epoch milliseconds. */
+  private lagFromTags(message: IrcMessage): number | null {
+    const sentAt = Number.parseInt(message.tags.get("tmi-sent-ts") ?? "", 10);
+    return Number.isInteger(sentAt) ? Math.max(0, Date.now() - sentAt) : null;
+  }
+}